@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+import path from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_CONFIG_PATH, ProxyConfig, loadProxyConfig } from './proxy-config';
+import { formatRoute } from './routing/routes';
+import { formatServer } from './routing/virtual-hosts';
+import { createRoutingEngine } from './routing/engine';
+import { defaultLlmTimeout } from './routing/latency-budget';
+import { RouteExplanation, explainRequest } from './routing/explain';
+import { startProxy } from './vercel-proxy';
+
+const USAGE = `Usage: nginclaude <command> [options]
+
+Commands:
+  serve                   Start the proxy
+  test                    Check the config file for errors, like nginx -t
+  explain <METHOD> <URL>  Show how a request would be routed, without sending it
+  routes                  List the server blocks and their routes
+
+Options:
+  -c, --config <path>     Config file (default: nginclaude-proxy.conf in the package)
+  -p, --port <port>       Port for server blocks without a listen directive (default: PORT or 3000)
+  -H, --header <header>   explain: request header, e.g. "Content-Type: application/json" (repeatable)
+  -d, --data <body>       explain: request body
+  -h, --help              Show this help`;
+
+// Interface for where the CLI writes to, so tests can capture it
+export interface CliOutput {
+  log(line: string): void;
+  error(line: string): void;
+}
+
+// Function to load the config for a command, reporting errors like nginx does
+function loadForCommand(configPath: string, port: number, output: CliOutput): ProxyConfig | null {
+  try {
+    return loadProxyConfig(configPath, port);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    output.error(`nginclaude: [emerg] ${message}`);
+    return null;
+  }
+}
+
+// Function to print the outcome of `explain`
+function printExplanation(method: string, explanation: RouteExplanation, output: CliOutput): void {
+  const { server, expected, engine, request, outcome, route, path: sentPath } = explanation;
+
+  output.log(`server:   ${server ? formatServer(server) : 'none matches'}`);
+  if (!server) {
+    return;
+  }
+  output.log(`config:   ${expected ? `${formatRoute(expected)} (${expected.loc.file}:${expected.loc.line})` : 'no location matches'}`);
+  output.log(`engine:   ${engine}`);
+  output.log(`sees:     ${JSON.stringify(request)}`);
+
+  switch (outcome?.status) {
+  case 'answered': {
+    const { decision, validation } = outcome;
+    output.log(`picks:    ${decision.routeId}${decision.path ? ` with path ${decision.path}` : ''}` +
+      `${decision.rule ? ` by rule ${decision.rule}` : ''}` +
+      `${decision.confidence !== undefined ? ` (confidence ${decision.confidence})` : ''}` +
+      `${decision.reasoning ? ` - ${decision.reasoning}` : ''}`);
+    if (!validation.accepted) {
+      output.log(`          rejected: ${validation.reason}`);
+    } else if (validation.reason) {
+      output.log(`          disagrees with the config, allowed by llm_disagreement log: ${validation.reason}`);
+    }
+    break;
+  }
+  case 'timeout':
+    output.log(`picks:    nothing within ${outcome.timeout}ms`);
+    break;
+  case 'error':
+    output.log(`picks:    nothing, the engine failed: ${outcome.error}`);
+    break;
+  }
+
+  output.log(`result:   ${route ? `${method.toUpperCase()} ${sentPath} => ${formatRoute(route)}` : '404, no route'}`);
+}
+
+// Function to run the CLI with the given arguments (without "node" and the
+// script). Resolves with the exit code; `serve` keeps the process running.
+export async function runCli(argv: string[], output: CliOutput = console): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        port: { type: 'string', short: 'p' },
+        header: { type: 'string', short: 'H', multiple: true },
+        data: { type: 'string', short: 'd' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (error) {
+    output.error(`nginclaude: ${error instanceof Error ? error.message : error}`);
+    output.error(USAGE);
+    return 1;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    output.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const configPath = values.config ? path.resolve(values.config) : DEFAULT_CONFIG_PATH;
+  const port = Number(values.port || process.env.PORT || 3000);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    output.error(`nginclaude: invalid port "${values.port}"`);
+    return 1;
+  }
+
+  switch (command) {
+  case 'serve':
+    await startProxy({ configPath, port });
+    return 0;
+
+  case 'test': {
+    const config = loadForCommand(configPath, port, output);
+    if (!config) {
+      output.error(`nginclaude: configuration file ${configPath} test failed`);
+      return 1;
+    }
+    const usesAnthropic = config.servers.some(({ engine }) => engine.engine === 'llm' && engine.provider === 'anthropic');
+    if (usesAnthropic && !process.env.ANTHROPIC_API_KEY) {
+      output.error('nginclaude: [warn] ANTHROPIC_API_KEY is not set, routing will fall back to the config');
+    }
+    output.log(`nginclaude: the configuration file ${configPath} syntax is ok`);
+    output.log(`nginclaude: configuration file ${configPath} test is successful`);
+    return 0;
+  }
+
+  case 'routes': {
+    const config = loadForCommand(configPath, port, output);
+    if (!config) {
+      return 1;
+    }
+    config.servers.forEach(server => {
+      output.log(`server ${formatServer(server)}, engine ${createRoutingEngine(server.engine).name}`);
+      server.routes.forEach(route => {
+        output.log(`  ${formatRoute(route)}  (${route.loc.file}:${route.loc.line})`);
+      });
+    });
+    return 0;
+  }
+
+  case 'explain': {
+    const [method, url] = args;
+    if (args.length !== 2) {
+      output.error('nginclaude: explain needs a method and a URL, e.g. nginclaude explain GET /api/users');
+      return 1;
+    }
+    const config = loadForCommand(configPath, port, output);
+    if (!config) {
+      return 1;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const header of values.header || []) {
+      const separator = header.indexOf(':');
+      if (separator <= 0) {
+        output.error(`nginclaude: invalid header "${header}", it must look like "Name: value"`);
+        return 1;
+      }
+      headers[header.slice(0, separator).trim().toLowerCase()] = header.slice(separator + 1).trim();
+    }
+
+    const explanation = await explainRequest(config, { method, url, headers, body: values.data }, defaultLlmTimeout());
+    printExplanation(method, explanation, output);
+    return explanation.route ? 0 : 1;
+  }
+
+  default:
+    output.error(`nginclaude: unknown command "${command}"`);
+    output.error(USAGE);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,57 @@
+// Position of a directive in the config file (1-based)
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// Interface for a raw directive, e.g. `proxy_pass http://localhost:8001;`.
+// Block directives such as `server { ... }` carry their children in `block`.
+export interface Directive {
+  name: string;
+  args: string[];
+  block?: Directive[];
+  loc: SourceLocation;
+}
+
+export type LocationModifier = '=' | '^~' | '~' | '~*';
+
+// Interface for a `location [modifier] path { ... }` block
+export interface LocationBlock {
+  modifier: LocationModifier | null;
+  path: string;
+  // Plain directives inside the block (nested locations excluded)
+  directives: Directive[];
+  locations: LocationBlock[];
+  loc: SourceLocation;
+}
+
+// Interface for a `server { ... }` block
+export interface ServerBlock {
+  directives: Directive[];
+  locations: LocationBlock[];
+  loc: SourceLocation;
+}
+
+// Interface for the `http { ... }` block
+export interface HttpBlock {
+  directives: Directive[];
+  servers: ServerBlock[];
+  loc: SourceLocation;
+}
+
+// Typed view of a whole config file
+export interface ConfigAST {
+  file: string;
+  http: HttpBlock;
+}
+
+// Function to find the first directive with the given name
+export function findDirective(directives: Directive[], name: string): Directive | undefined {
+  return directives.find(directive => directive.name === name);
+}
+
+// Function to find every directive with the given name, in file order
+export function findDirectives(directives: Directive[], name: string): Directive[] {
+  return directives.filter(directive => directive.name === name);
+}
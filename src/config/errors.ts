@@ -0,0 +1,16 @@
+// Error raised for any problem found while reading an nginx-style config.
+// The message mirrors nginx's own "... in <file>:<line>" format so it can be
+// read the same way as `nginx -t` output.
+export class NginxConfigError extends Error {
+  readonly file: string;
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, file: string, line: number, column: number) {
+    super(`${message} in ${file}:${line}:${column}`);
+    this.name = 'NginxConfigError';
+    this.file = file;
+    this.line = line;
+    this.column = column;
+  }
+}
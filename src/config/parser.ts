@@ -0,0 +1,209 @@
+import fs from 'fs';
+import { tokenize, Token } from './tokenizer';
+import { NginxConfigError } from './errors';
+import {
+  ConfigAST,
+  Directive,
+  HttpBlock,
+  LocationBlock,
+  LocationModifier,
+  ServerBlock,
+  SourceLocation
+} from './ast';
+
+const LOCATION_MODIFIERS: LocationModifier[] = ['=', '^~', '~', '~*'];
+
+// Directives that only make sense at the top of the file and have no bearing on proxying
+const MAIN_CONTEXT_BLOCKS = ['events'];
+
+// Function to turn a token stream into a tree of raw directives
+export function parseDirectives(tokens: Token[], file: string): Directive[] {
+  let pos = 0;
+
+  const parseBlock = (opener: Token | null): Directive[] => {
+    const directives: Directive[] = [];
+
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+
+      if (token.type === 'close') {
+        if (!opener) {
+          throw new NginxConfigError('unexpected "}"', file, token.line, token.column);
+        }
+        pos++;
+        return directives;
+      }
+
+      if (token.type !== 'word') {
+        throw new NginxConfigError(`unexpected "${token.value}"`, file, token.line, token.column);
+      }
+
+      const nameToken = token;
+      const args: string[] = [];
+      pos++;
+
+      while (pos < tokens.length && tokens[pos].type === 'word') {
+        args.push(tokens[pos].value);
+        pos++;
+      }
+
+      const terminator = tokens[pos];
+      if (!terminator) {
+        throw new NginxConfigError(
+          `unexpected end of file, expecting ";" or "}" after "${nameToken.value}"`,
+          file, nameToken.line, nameToken.column
+        );
+      }
+
+      const loc: SourceLocation = { file, line: nameToken.line, column: nameToken.column };
+
+      if (terminator.type === 'semicolon') {
+        pos++;
+        directives.push({ name: nameToken.value, args, loc });
+      } else if (terminator.type === 'open') {
+        pos++;
+        directives.push({ name: nameToken.value, args, block: parseBlock(terminator), loc });
+      } else {
+        throw new NginxConfigError(
+          `directive "${nameToken.value}" is not terminated by ";"`,
+          file, nameToken.line, nameToken.column
+        );
+      }
+    }
+
+    if (opener) {
+      throw new NginxConfigError(
+        'unexpected end of file, expecting "}"',
+        file, opener.line, opener.column
+      );
+    }
+
+    return directives;
+  };
+
+  return parseBlock(null);
+}
+
+const notAllowedHere = (directive: Directive): NginxConfigError =>
+  new NginxConfigError(
+    `"${directive.name}" directive is not allowed here`,
+    directive.loc.file, directive.loc.line, directive.loc.column
+  );
+
+const requireBlock = (directive: Directive): Directive[] => {
+  if (!directive.block) {
+    throw new NginxConfigError(
+      `directive "${directive.name}" has no opening "{"`,
+      directive.loc.file, directive.loc.line, directive.loc.column
+    );
+  }
+  return directive.block;
+};
+
+// Function to build a typed location block, including nested locations
+function buildLocation(directive: Directive): LocationBlock {
+  const children = requireBlock(directive);
+  const { loc } = directive;
+  let modifier: LocationModifier | null = null;
+  let locationPath: string;
+
+  if (directive.args.length === 1) {
+    locationPath = directive.args[0];
+  } else if (directive.args.length === 2) {
+    if (!LOCATION_MODIFIERS.includes(directive.args[0] as LocationModifier)) {
+      throw new NginxConfigError(
+        `invalid location modifier "${directive.args[0]}"`,
+        loc.file, loc.line, loc.column
+      );
+    }
+    modifier = directive.args[0] as LocationModifier;
+    locationPath = directive.args[1];
+  } else {
+    throw new NginxConfigError(
+      'invalid number of arguments in "location" directive',
+      loc.file, loc.line, loc.column
+    );
+  }
+
+  const location: LocationBlock = { modifier, path: locationPath, directives: [], locations: [], loc };
+
+  for (const child of children) {
+    if (child.name === 'location') {
+      location.locations.push(buildLocation(child));
+    } else if (child.name === 'server' || child.name === 'http') {
+      throw notAllowedHere(child);
+    } else {
+      location.directives.push(child);
+    }
+  }
+
+  return location;
+}
+
+// Function to build a typed server block
+function buildServer(directive: Directive): ServerBlock {
+  const children = requireBlock(directive);
+  const server: ServerBlock = { directives: [], locations: [], loc: directive.loc };
+
+  for (const child of children) {
+    if (child.name === 'location') {
+      server.locations.push(buildLocation(child));
+    } else if (child.name === 'server' || child.name === 'http') {
+      throw notAllowedHere(child);
+    } else {
+      server.directives.push(child);
+    }
+  }
+
+  return server;
+}
+
+// Function to build the typed AST from raw top-level directives. Files without
+// an `http` block (conf.d style, like benchmark-nginx.conf) are treated as if
+// their contents were inside one.
+export function buildConfigAst(directives: Directive[], file: string): ConfigAST {
+  const httpDirectives = directives.filter(directive => directive.name === 'http');
+
+  if (httpDirectives.length > 1) {
+    const duplicate = httpDirectives[1];
+    throw new NginxConfigError(
+      '"http" directive is duplicate',
+      file, duplicate.loc.line, duplicate.loc.column
+    );
+  }
+
+  const httpLoc: SourceLocation = httpDirectives.length > 0
+    ? httpDirectives[0].loc
+    : { file, line: 1, column: 1 };
+  const httpChildren = httpDirectives.length > 0 ? requireBlock(httpDirectives[0]) : [];
+
+  // Top-level directives other than `http` itself belong to the implicit http context
+  const topLevel = directives.filter(directive =>
+    directive.name !== 'http' && !MAIN_CONTEXT_BLOCKS.includes(directive.name)
+  );
+
+  const http: HttpBlock = { directives: [], servers: [], loc: httpLoc };
+
+  for (const child of [...httpChildren, ...topLevel]) {
+    if (child.name === 'server') {
+      http.servers.push(buildServer(child));
+    } else if (child.name === 'location') {
+      throw notAllowedHere(child);
+    } else {
+      http.directives.push(child);
+    }
+  }
+
+  return { file, http };
+}
+
+// Function to parse config text into a typed AST
+export function parseConfig(source: string, file: string): ConfigAST {
+  const tokens = tokenize(source, file);
+  return buildConfigAst(parseDirectives(tokens, file), file);
+}
+
+// Function to read and parse a config file from disk
+export function loadConfig(configPath: string): ConfigAST {
+  return parseConfig(fs.readFileSync(configPath, 'utf8'), configPath);
+}
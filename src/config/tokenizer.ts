@@ -0,0 +1,127 @@
+import { NginxConfigError } from './errors';
+
+export type TokenType = 'word' | 'open' | 'close' | 'semicolon';
+
+// Interface for a single token of an nginx-style config file
+export interface Token {
+  type: TokenType;
+  value: string;
+  // True when the word was written as a '...' or "..." string
+  quoted: boolean;
+  line: number;
+  column: number;
+}
+
+const isWhitespace = (ch: string): boolean => ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n';
+
+// Function to split config text into tokens. Follows nginx's rules: `#` starts a
+// comment only at the beginning of a token, quotes group words, and `${var}`
+// keeps its braces inside the word.
+export function tokenize(source: string, file: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (): string => {
+    const ch = source[pos++];
+    if (ch === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    return ch;
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (isWhitespace(ch)) {
+      advance();
+      continue;
+    }
+
+    // Comments run to the end of the line, braces and all
+    if (ch === '#') {
+      while (pos < source.length && source[pos] !== '\n') {
+        advance();
+      }
+      continue;
+    }
+
+    const startLine = line;
+    const startColumn = column;
+
+    if (ch === '{' || ch === '}' || ch === ';') {
+      advance();
+      tokens.push({
+        type: ch === '{' ? 'open' : ch === '}' ? 'close' : 'semicolon',
+        value: ch,
+        quoted: false,
+        line: startLine,
+        column: startColumn
+      });
+      continue;
+    }
+
+    if (ch === '"' || ch === '\'') {
+      const quote = advance();
+      let value = '';
+      let closed = false;
+
+      while (pos < source.length) {
+        const next = advance();
+        if (next === '\\' && pos < source.length) {
+          const escaped = advance();
+          value += escaped === quote || escaped === '\\' ? escaped : `\\${escaped}`;
+          continue;
+        }
+        if (next === quote) {
+          closed = true;
+          break;
+        }
+        value += next;
+      }
+
+      if (!closed) {
+        throw new NginxConfigError('unterminated quoted string', file, startLine, startColumn);
+      }
+
+      tokens.push({ type: 'word', value, quoted: true, line: startLine, column: startColumn });
+      continue;
+    }
+
+    let value = '';
+    while (pos < source.length) {
+      const next = source[pos];
+      if (isWhitespace(next) || next === ';' || next === '}') {
+        break;
+      }
+      if (next === '{') {
+        // "${name}" is a variable reference, not the start of a block
+        if (value.endsWith('$')) {
+          while (pos < source.length && source[pos] !== '}') {
+            value += advance();
+          }
+          if (pos >= source.length) {
+            throw new NginxConfigError('unterminated variable reference', file, startLine, startColumn);
+          }
+          value += advance();
+          continue;
+        }
+        break;
+      }
+      if (next === '\\' && pos + 1 < source.length) {
+        advance();
+        value += advance();
+        continue;
+      }
+      value += advance();
+    }
+
+    tokens.push({ type: 'word', value, quoted: false, line: startLine, column: startColumn });
+  }
+
+  return tokens;
+}
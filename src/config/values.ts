@@ -0,0 +1,59 @@
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+// Function to parse an nginx time value ("500ms", "10s", "1m30s", or bare
+// seconds like "30") into milliseconds. Returns null for invalid values.
+export function parseDuration(value: string): number | null {
+  if (/^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const parts = value.match(/\d+(ms|s|m|h|d)/g);
+  if (!parts || parts.join('') !== value) {
+    return null;
+  }
+
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/^(\d+)(\w+)$/) as RegExpMatchArray;
+    return total + Number(amount) * DURATION_UNITS[unit];
+  }, 0);
+}
+
+// Function to split `key=value` parameters, e.g. `weight=3` or `interval=5s`
+export function parseParam(param: string): { key: string; value: string } | null {
+  const separator = param.indexOf('=');
+  if (separator <= 0) {
+    return null;
+  }
+  return { key: param.slice(0, separator), value: param.slice(separator + 1) };
+}
+
+// Function to parse an nginx flag ("on" or "off"). Returns null for invalid values.
+export function parseFlag(value: string): boolean | null {
+  if (value === 'on' || value === 'off') {
+    return value === 'on';
+  }
+  return null;
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  k: 1024,
+  m: 1024 * 1024,
+  g: 1024 * 1024 * 1024
+};
+
+// Function to parse an nginx size ("512", "16k", "1m") into bytes. Returns
+// null for invalid values.
+export function parseSize(value: string): number | null {
+  const size = value.match(/^(\d+)([kmg]?)$/i);
+  if (!size) {
+    return null;
+  }
+  return Number(size[1]) * SIZE_UNITS[size[2].toLowerCase()];
+}
@@ -0,0 +1,145 @@
+import { TokenUsage } from '../routing/engine';
+import { DecisionCacheStats } from '../routing/decision-cache';
+import { RoutingWinner } from '../routing/latency-budget';
+import { BackendHealth } from '../upstream/health';
+import { UpstreamFailure } from '../proxy/next-upstream';
+import { DEFAULT_LATENCY_BUCKETS, createMetricsRegistry } from './registry';
+
+// Why a request was served by the config's own route instead of the engine's
+// pick: the engine failed, its rewritten path isn't a usable URL path, the
+// upstream it picked failed, it ran out of time, its pick was rejected, the
+// route it picked had no live backend, llm_limit_req held the call back, or
+// the engine's circuit breaker was open
+export type FallbackReason =
+  | 'api_error'
+  | 'url_parse_failure'
+  | 'proxy_error'
+  | 'timeout'
+  | 'rejected'
+  | 'no_live_backend'
+  | 'rate_limited'
+  | 'circuit_open';
+
+const FALLBACK_REASONS: FallbackReason[] = [
+  'api_error',
+  'url_parse_failure',
+  'proxy_error',
+  'timeout',
+  'rejected',
+  'no_live_backend',
+  'rate_limited',
+  'circuit_open'
+];
+
+// How a routing engine call ended, see BudgetResult
+export type EngineCallOutcome = 'answered' | 'timeout' | 'cancelled' | 'error';
+
+// Interface for where a response came from, labelling the request metrics
+export interface RequestLabels {
+  server: string;
+  // Location ID, empty when no location handled the request
+  location: string;
+  // Origin of the backend, empty when the request wasn't proxied
+  upstream: string;
+}
+
+// Interface for the state the metrics read at scrape time
+export interface MetricsSources {
+  health(): BackendHealth[];
+  routing(): Record<RoutingWinner, number>;
+  decisionCache(): DecisionCacheStats;
+}
+
+// Interface for the proxy's Prometheus metrics
+export interface ProxyMetrics {
+  observeRequest(labels: RequestLabels, statusCode: number, seconds: number): void;
+  observeEngineCall(engine: string, outcome: EngineCallOutcome, seconds: number): void;
+  countTokens(engine: string, usage: TokenUsage): void;
+  countFallback(reason: FallbackReason): void;
+  countUpstreamRetry(failure: UpstreamFailure): void;
+  // The metrics in the Prometheus text format, for /metrics
+  render(): string;
+}
+
+const LLM_LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 3, 5, 10, 30];
+
+// Function to reduce a status code to its class, e.g. 404 -> "4xx"
+export const statusClass = (statusCode: number): string => `${Math.floor(statusCode / 100)}xx`;
+
+// Function to create the proxy's metrics
+export function createProxyMetrics(sources: MetricsSources): ProxyMetrics {
+  const registry = createMetricsRegistry();
+
+  const requests = registry.counter(
+    'nginclaude_http_requests_total',
+    'Requests served, by server, location, upstream and status class'
+  );
+  const requestDuration = registry.histogram(
+    'nginclaude_http_request_duration_seconds',
+    'Time from receiving a request to the end of its response, routing included',
+    DEFAULT_LATENCY_BUCKETS
+  );
+  const engineCalls = registry.counter(
+    'nginclaude_llm_calls_total',
+    'Routing engine calls by engine and outcome (answered, timeout, cancelled, error)'
+  );
+  const engineDuration = registry.histogram(
+    'nginclaude_llm_call_duration_seconds',
+    'How long routing engine calls took, by engine',
+    LLM_LATENCY_BUCKETS
+  );
+  const tokens = registry.counter(
+    'nginclaude_llm_tokens_total',
+    'Tokens used by routing model calls, by engine and type (prompt, completion)'
+  );
+  const fallbacks = registry.counter(
+    'nginclaude_fallbacks_total',
+    'Requests served by the config instead of the engine\'s pick, by reason'
+  );
+  // Every reason is listed from the start, so rate() works on the first one
+  FALLBACK_REASONS.forEach(reason => fallbacks.inc({ reason }, 0));
+  const retries = registry.counter(
+    'nginclaude_upstream_retries_total',
+    'Requests passed to the next backend by proxy_next_upstream, by what failed (error, timeout, http_502, ...)'
+  );
+
+  registry.collect('nginclaude_routing_total', 'Requests by how they were routed', 'counter', () =>
+    Object.entries(sources.routing()).map(([path, value]) => ({ labels: { path }, value })));
+  registry.collect('nginclaude_decision_cache_hits_total', 'Routing decision cache hits since the last reload', 'counter',
+    () => [{ labels: {}, value: sources.decisionCache().hits }]);
+  registry.collect('nginclaude_decision_cache_misses_total', 'Routing decision cache misses since the last reload', 'counter',
+    () => [{ labels: {}, value: sources.decisionCache().misses }]);
+  registry.collect('nginclaude_decision_cache_entries', 'Routing decisions currently cached', 'gauge',
+    () => [{ labels: {}, value: sources.decisionCache().size }]);
+  registry.collect('nginclaude_upstream_up', 'Whether a backend is in rotation (1) or marked down (0)', 'gauge', () =>
+    sources.health().map(({ origin, status }) => ({ labels: { upstream: origin }, value: status === 'up' ? 1 : 0 })));
+  registry.collect('nginclaude_upstream_consecutive_failures', 'Failed health checks in a row, by backend', 'gauge', () =>
+    sources.health().map(({ origin, consecutiveFailures }) => ({ labels: { upstream: origin }, value: consecutiveFailures })));
+
+  return {
+    observeRequest(labels, statusCode, seconds) {
+      requests.inc({ ...labels, status: statusClass(statusCode) });
+      requestDuration.observe({ ...labels }, seconds);
+    },
+
+    observeEngineCall(engine, outcome, seconds) {
+      engineCalls.inc({ engine, outcome });
+      engineDuration.observe({ engine }, seconds);
+    },
+
+    countTokens(engine, usage) {
+      tokens.inc({ engine, type: 'prompt' }, usage.promptTokens || 0);
+      tokens.inc({ engine, type: 'completion' }, usage.completionTokens || 0);
+    },
+
+    countFallback(reason) {
+      fallbacks.inc({ reason });
+    },
+
+    countUpstreamRetry(failure) {
+      retries.inc({ reason: failure });
+    },
+
+    render: registry.render
+  };
+}
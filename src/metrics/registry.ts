@@ -0,0 +1,113 @@
+// Metric labels, e.g. { location: "/api", status: "2xx" }
+export type Labels = Record<string, string>;
+
+// Interface for a counter that only goes up
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+// Interface for a histogram of observed values, e.g. latencies in seconds
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+// Interface for a labelled sample read at scrape time
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+// Interface for a set of metrics rendered in the Prometheus text format
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  // Gauges and counters whose values live elsewhere, e.g. backend health
+  collect(name: string, help: string, type: 'gauge' | 'counter', read: () => Sample[]): void;
+  render(): string;
+}
+
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Function to escape a label value, see
+// https://prometheus.io/docs/instrumenting/exposition_formats/
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+// Function to format a label set, e.g. {location="/api",status="2xx"}
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Function to format a sample value the way Prometheus expects
+const formatValue = (value: number): string =>
+  (Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN');
+
+// Function to create an empty metrics registry. Series are keyed by their
+// label set, so the same labels always update the same series.
+export function createMetricsRegistry(): MetricsRegistry {
+  const sections: (() => string[])[] = [];
+
+  const header = (name: string, help: string, type: string): string[] =>
+    [`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${name} ${type}`];
+
+  return {
+    counter(name, help) {
+      const series = new Map<string, number>();
+      sections.push(() => [
+        ...header(name, help, 'counter'),
+        ...[...series].map(([labels, value]) => `${name}${labels} ${formatValue(value)}`)
+      ]);
+
+      return {
+        inc(labels = {}, value = 1) {
+          const key = formatLabels(labels);
+          series.set(key, (series.get(key) || 0) + value);
+        }
+      };
+    },
+
+    histogram(name, help, buckets) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+      sections.push(() => [
+        ...header(name, help, 'histogram'),
+        ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+          ...bounds.map((bound, index) =>
+            `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`),
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+          `${name}_count${formatLabels(labels)} ${count}`
+        ])
+      ]);
+
+      return {
+        observe(labels, value) {
+          const key = formatLabels(labels);
+          const entry = series.get(key) || { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+          series.set(key, entry);
+
+          // Buckets are cumulative: a value counts towards every bound above it
+          bounds.forEach((bound, index) => {
+            if (value <= bound) {
+              entry.counts[index]++;
+            }
+          });
+          entry.sum += value;
+          entry.count++;
+        }
+      };
+    },
+
+    collect(name, help, type, read) {
+      sections.push(() => [
+        ...header(name, help, type),
+        ...read().map(({ labels, value }) => `${name}${formatLabels(labels)} ${formatValue(value)}`)
+      ]);
+    },
+
+    render() {
+      return `${sections.flatMap(section => section()).join('\n')}\n`;
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import path from 'path';
+import { ConfigAST } from './config/ast';
+import { loadConfig } from './config/parser';
+import { RouteConfig } from './routing/routes';
+import { VirtualServer, buildServers } from './routing/virtual-hosts';
+import { buildLlmCacheMaxSize } from './routing/decision-cache';
+import { SpendingConfig, buildSpendingConfig } from './routing/spending';
+import { LimitZones, buildLimitZones, checkLimitZones } from './proxy/rate-limit';
+import { CacheZone, buildCacheZones, checkCacheZones } from './proxy/response-cache';
+
+// nginclaude-proxy.conf at the root of the package, next to src/ and dist/
+export const DEFAULT_CONFIG_PATH = path.join(__dirname, '..', 'nginclaude-proxy.conf');
+
+// Interface for everything the proxy needs from a config file
+export interface ProxyConfig {
+  file: string;
+  servers: VirtualServer[];
+  // Routes of every server block
+  routes: RouteConfig[];
+  llmCacheMaxSize: number;
+  // llm_price and llm_spend_cap
+  spending: SpendingConfig;
+  // limit_req_zone and limit_conn_zone
+  limitZones: LimitZones;
+  // proxy_cache_path
+  cacheZones: Map<string, CacheZone>;
+}
+
+// Function to build the proxy config from a parsed config file. Servers without
+// a `listen` directive listen on `defaultPort`.
+export function buildProxyConfig(ast: ConfigAST, defaultPort: number): ProxyConfig {
+  const servers = buildServers(ast, defaultPort);
+  const routes = servers.flatMap(server => server.routes);
+  const limitZones = buildLimitZones(ast.http.directives);
+  checkLimitZones([...servers, ...routes].map(({ rateLimit }) => rateLimit), limitZones);
+  const cacheZones = buildCacheZones(ast.http.directives);
+  checkCacheZones(routes.map(({ proxyCache }) => proxyCache), cacheZones);
+
+  return {
+    file: ast.file,
+    servers,
+    routes,
+    llmCacheMaxSize: buildLlmCacheMaxSize(ast.http.directives),
+    spending: buildSpendingConfig(ast.http.directives),
+    limitZones,
+    cacheZones
+  };
+}
+
+// Function to read, parse and validate a config file
+export function loadProxyConfig(configPath: string, defaultPort: number): ProxyConfig {
+  return buildProxyConfig(loadConfig(configPath), defaultPort);
+}
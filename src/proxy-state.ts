@@ -0,0 +1,31 @@
+import { ProxyConfig } from './proxy-config';
+import { collectHealthTargets } from './routing/routes';
+import { RoutingEngine, createRoutingEngine } from './routing/engine';
+import { VirtualServer } from './routing/virtual-hosts';
+import { DecisionCache, createDecisionCache } from './routing/decision-cache';
+import { HealthMonitor, createHealthMonitor } from './upstream/health';
+
+// Interface for everything built from one version of the config. A request
+// keeps the state it started with, so a reload never changes its routes midway.
+export interface ProxyState {
+  config: ProxyConfig;
+  // The routing engine of each server block, as configured by llm_engine and friends
+  engines: Map<VirtualServer, RoutingEngine>;
+  // Active and passive health state of every backend, shared by both routers
+  health: HealthMonitor;
+  // Recent routing decisions, so repeat requests of the same shape skip the engine
+  decisionCache: DecisionCache;
+}
+
+// Function to build the runtime state for a config. Health checks don't run
+// until the caller starts them.
+export function createProxyState(config: ProxyConfig): ProxyState {
+  return {
+    config,
+    engines: new Map(config.servers.map(server => [server, createRoutingEngine(server.engine)])),
+    health: createHealthMonitor(collectHealthTargets(config.routes)),
+    // Decisions made under the old config may name routes that changed, so
+    // every state starts with an empty cache
+    decisionCache: createDecisionCache(config.llmCacheMaxSize)
+  };
+}
@@ -0,0 +1,269 @@
+import fs from 'fs';
+import path from 'path';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Writable } from 'stream';
+import { Directive, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { isKnownVariable, referencedVariables, resolveVariable } from './variables';
+
+// How variable values are escaped in a log line: nginx's default escapes
+// quotes, backslashes and control characters as \xXX
+export type LogEscape = 'default' | 'json' | 'none';
+
+// Interface for a `log_format` directive
+export interface LogFormat {
+  name: string;
+  escape: LogEscape;
+  template: string;
+}
+
+// Interface for one `access_log` destination
+export interface AccessLogTarget {
+  // Absolute file path, or "stdout" / "stderr"
+  path: string;
+  format: LogFormat;
+}
+
+// Interface for one backend attempt of a request, in the order tried
+export interface UpstreamAttempt {
+  // Origin of the backend, e.g. http://localhost:8001
+  origin: string;
+  startedAt: number;
+  endedAt?: number;
+}
+
+// Interface for everything a log line can mention about a finished request
+export interface AccessLogEntry {
+  req: IncomingMessage;
+  statusCode: number;
+  bodyBytes: number;
+  // When the request arrived, and how long it took in seconds
+  startedAt: Date;
+  requestTime: number;
+  upstreams: UpstreamAttempt[];
+  // How the request was routed: cache, llm, timeout, race, fallback or shadow
+  routingSource?: string;
+  // ID of the location that served the request
+  location?: string;
+  // X-Cache-Status of a location with proxy_cache
+  cacheStatus?: string;
+}
+
+export const BUILTIN_LOG_FORMATS: Record<string, LogFormat> = {
+  combined: {
+    name: 'combined',
+    escape: 'default',
+    template: '$remote_addr - $remote_user [$time_local] "$request" $status $body_bytes_sent ' +
+      '"$http_referer" "$http_user_agent"'
+  },
+  // One JSON object per line
+  json: {
+    name: 'json',
+    escape: 'json',
+    template: '{"time":"$time_iso8601","remote_addr":"$remote_addr","host":"$host","request":"$request",' +
+      '"status":$status,"body_bytes_sent":$body_bytes_sent,"request_time":$request_time,' +
+      '"upstream_addr":"$upstream_addr","upstream_response_time":"$upstream_response_time",' +
+      '"routing_source":"$routing_source","location":"$location",' +
+      '"http_referer":"$http_referer","http_user_agent":"$http_user_agent"}'
+  }
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Function to format a time like nginx's $time_local, e.g. 19/Oct/2026:19:03:09 +0000
+export function formatTimeLocal(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const zone = `${offset >= 0 ? '+' : '-'}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+  return `${pad(date.getDate())}/${MONTHS[date.getMonth()]}/${date.getFullYear()}:` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())} ${zone}`;
+}
+
+// Function to format a duration in seconds with millisecond resolution, like nginx
+const seconds = (ms: number): string => (Math.max(ms, 0) / 1000).toFixed(3);
+
+// The host:port part of an upstream origin, like nginx's $upstream_addr
+const upstreamHost = (origin: string): string => new URL(origin).host;
+
+// Variables that only exist once a response is done
+const LOG_VARIABLES: Record<string, (entry: AccessLogEntry) => string> = {
+  status: entry => String(entry.statusCode),
+  body_bytes_sent: entry => String(entry.bodyBytes),
+  request: ({ req }) => `${req.method} ${(req as IncomingMessage & { originalUrl?: string }).originalUrl || req.url} ` +
+    `HTTP/${req.httpVersion}`,
+  request_time: entry => entry.requestTime.toFixed(3),
+  time_local: entry => formatTimeLocal(entry.startedAt),
+  time_iso8601: entry => entry.startedAt.toISOString(),
+  msec: entry => (entry.startedAt.getTime() / 1000).toFixed(3),
+  remote_user: ({ req }) => {
+    const match = (req.headers.authorization || '').match(/^Basic\s+(\S+)/i);
+    return match ? Buffer.from(match[1], 'base64').toString().split(':')[0] : '';
+  },
+  upstream_addr: entry => entry.upstreams.map(attempt => upstreamHost(attempt.origin)).join(', '),
+  upstream_response_time: entry => entry.upstreams
+    .map(attempt => seconds((attempt.endedAt ?? attempt.startedAt) - attempt.startedAt))
+    .join(', '),
+  upstream_cache_status: entry => entry.cacheStatus || '',
+  // nginclaude extensions
+  routing_source: entry => entry.routingSource || '',
+  location: entry => entry.location || ''
+};
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read the `log_format name [escape=default|json|none] string ...`
+// directives of the http context, on top of the built-in formats
+export function buildLogFormats(httpDirectives: Directive[]): Map<string, LogFormat> {
+  const formats = new Map(Object.entries(BUILTIN_LOG_FORMATS));
+
+  for (const directive of findDirectives(httpDirectives, 'log_format')) {
+    const [name, ...rest] = directive.args;
+    const escapeParam = rest[0]?.match(/^escape=(.*)$/);
+    const strings = escapeParam ? rest.slice(1) : rest;
+    if (!name || strings.length === 0) {
+      throw configError(directive, 'invalid number of arguments in "log_format" directive');
+    }
+    if (formats.has(name)) {
+      throw configError(directive, `duplicate "log_format" name "${name}"`);
+    }
+
+    const escape = escapeParam ? escapeParam[1] : 'default';
+    if (escape !== 'default' && escape !== 'json' && escape !== 'none') {
+      throw configError(directive, `unknown log format escaping "${escape}"`);
+    }
+
+    // Like nginx, the strings are joined without a separator
+    const template = strings.join('');
+    for (const variable of referencedVariables(template)) {
+      if (!Object.prototype.hasOwnProperty.call(LOG_VARIABLES, variable) && !isKnownVariable(variable)) {
+        throw configError(directive, `unknown "${variable}" variable`);
+      }
+    }
+    formats.set(name, { name, escape, template });
+  }
+
+  return formats;
+}
+
+// access_log destinations written to the process' own output
+const STDIO_PATHS = ['stdout', 'stderr', '/dev/stdout', '/dev/stderr'];
+
+// Function to read `access_log <path> [format] | off` of one config level.
+// A level with its own access_log directives replaces the inherited ones.
+export function buildAccessLogConfig(
+  directives: Directive[],
+  inherited: AccessLogTarget[],
+  formats: Map<string, LogFormat>
+): AccessLogTarget[] {
+  const accessLogs = findDirectives(directives, 'access_log');
+  if (accessLogs.length === 0) {
+    return inherited;
+  }
+
+  const targets: AccessLogTarget[] = [];
+  for (const directive of accessLogs) {
+    const [logPath, formatName = 'combined', ...params] = directive.args;
+    if (!logPath || params.length > 0) {
+      throw configError(directive, 'invalid number of arguments in "access_log" directive');
+    }
+    if (logPath === 'off') {
+      if (accessLogs.length > 1 || directive.args.length > 1) {
+        throw configError(directive, 'invalid parameter "off" in "access_log" directive');
+      }
+      return [];
+    }
+
+    const format = formats.get(formatName);
+    if (!format) {
+      throw configError(directive, `unknown log format "${formatName}"`);
+    }
+    // Relative paths are taken from the config file's directory, like proxy_cache_path
+    const resolved = STDIO_PATHS.includes(logPath) ? logPath : path.resolve(path.dirname(directive.loc.file), logPath);
+    targets.push({ path: resolved, format });
+  }
+  return targets;
+}
+
+// Function to escape a variable value for a log line
+function escapeValue(value: string, escape: LogEscape): string {
+  switch (escape) {
+  case 'json':
+    return JSON.stringify(value).slice(1, -1);
+  case 'none':
+    return value;
+  default:
+    return [...Buffer.from(value)].map(byte => (byte < 0x20 || byte > 0x7e || byte === 0x22 || byte === 0x5c
+      ? `\\x${byte.toString(16).toUpperCase().padStart(2, '0')}`
+      : String.fromCharCode(byte))).join('');
+  }
+}
+
+// Function to format the log line of a finished request. Empty values are
+// written as "-", like nginx does.
+export function formatLogLine(format: LogFormat, entry: AccessLogEntry): string {
+  return format.template.replace(/\$(?:\{(\w+)\}|(\w+))/g, (_match, braced: string, bare: string) => {
+    const name = braced || bare;
+    const value = Object.prototype.hasOwnProperty.call(LOG_VARIABLES, name)
+      ? LOG_VARIABLES[name](entry)
+      : resolveVariable(name, entry.req);
+    return value === '' ? '-' : escapeValue(value, format.escape);
+  });
+}
+
+// Open log files by path, shared by every config version so a reload doesn't
+// cut off requests still writing to them
+const streams = new Map<string, Writable>();
+
+// Function to get the stream for an access_log path
+function logStream(logPath: string): Writable {
+  if (logPath === 'stdout' || logPath === '/dev/stdout') {
+    return process.stdout;
+  }
+  if (logPath === 'stderr' || logPath === '/dev/stderr') {
+    return process.stderr;
+  }
+
+  let stream = streams.get(logPath);
+  if (!stream) {
+    stream = fs.createWriteStream(logPath, { flags: 'a' });
+    stream.on('error', error => console.error(`Error writing access log ${logPath}:`, error.message));
+    streams.set(logPath, stream);
+  }
+  return stream;
+}
+
+// Function to write a finished request to every access_log destination
+export function writeAccessLog(targets: AccessLogTarget[], entry: AccessLogEntry): void {
+  for (const target of targets) {
+    logStream(target.path).write(`${formatLogLine(target.format, entry)}\n`);
+  }
+}
+
+// Function to count the body bytes written to a response. Returns a function
+// reading the count so far.
+export function countBodyBytes(res: ServerResponse): () => number {
+  let bytes = 0;
+  const count = (chunk: unknown, encoding?: unknown) => {
+    if (typeof chunk === 'string') {
+      bytes += Buffer.byteLength(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8');
+    } else if (chunk instanceof Uint8Array) {
+      bytes += chunk.byteLength;
+    }
+  };
+
+  const write = res.write;
+  const end = res.end;
+  res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+    count(chunk, args[0]);
+    return write.apply(this, [chunk, ...args] as Parameters<typeof write>);
+  } as typeof res.write;
+  res.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]) {
+    if (typeof chunk !== 'function') {
+      count(chunk, args[0]);
+    }
+    return end.apply(this, [chunk, ...args] as Parameters<typeof end>);
+  } as typeof res.end;
+
+  return () => bytes;
+}
@@ -0,0 +1,19 @@
+import { timingSafeEqual } from 'crypto';
+
+// Function to check the `Authorization: Bearer <token>` header of an admin
+// request. Admin endpoints are disabled while no token is configured.
+export function isAdminAuthorized(authorization: string | undefined, token: string | undefined): boolean {
+  if (!token || !authorization) {
+    return false;
+  }
+
+  const match = authorization.match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match) {
+    return false;
+  }
+
+  // Compare in constant time so the token can't be guessed byte by byte
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,95 @@
+import { IncomingMessage } from 'http';
+import { PassThrough, Readable } from 'stream';
+
+// Interface for a request body that has been peeked at but not consumed
+export interface RequestBody {
+  // The first bytes of the body, at most the preview limit
+  preview: Buffer;
+  // Whether the body goes on past the preview
+  truncated: boolean;
+  // The whole body, unchanged, for sending upstream: the preview followed by
+  // whatever is still unread on the socket. Bodies that fit in the preview
+  // can be replayed; others only once, so null means the body is gone.
+  stream(): Readable | null;
+}
+
+// Function to check whether a request carries a body at all
+export function hasBody(req: IncomingMessage): boolean {
+  const length = req.headers['content-length'];
+  return req.headers['transfer-encoding'] !== undefined || (length !== undefined && length !== '0');
+}
+
+// Function to read up to `previewLimit` bytes of a request body and leave the
+// rest of it on the socket. Bodies up to `bufferLimit` are read in full, so
+// they can be sent again. Only that much is ever held in memory, so bodies of
+// any size stream through.
+export function readRequestBody(
+  req: IncomingMessage,
+  previewLimit: number,
+  bufferLimit: number = previewLimit
+): Promise<RequestBody> {
+  const readLimit = Math.max(previewLimit, bufferLimit);
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let ended = !hasBody(req);
+    let sent = false;
+
+    const finish = () => {
+      req.off('data', onData);
+      req.off('end', onEnd);
+      req.off('error', onError);
+
+      const buffered = Buffer.concat(chunks);
+      resolve({
+        preview: buffered.subarray(0, previewLimit),
+        truncated: !ended || size > previewLimit,
+
+        stream() {
+          if (ended) {
+            return Readable.from(size > 0 ? [buffered] : []);
+          }
+          if (sent) {
+            return null;
+          }
+          sent = true;
+          if (size === 0) {
+            return req;
+          }
+
+          const replay = new PassThrough();
+          replay.write(buffered);
+          req.on('error', error => replay.destroy(error));
+          req.pipe(replay);
+          return replay;
+        }
+      });
+    };
+
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size >= readLimit) {
+        req.pause();
+        finish();
+      }
+    };
+    const onEnd = () => {
+      ended = true;
+      finish();
+    };
+    const onError = (error: Error) => {
+      req.off('data', onData);
+      req.off('end', onEnd);
+      reject(error);
+    };
+
+    if (ended || readLimit === 0) {
+      finish();
+      return;
+    }
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.on('error', onError);
+  });
+}
@@ -0,0 +1,114 @@
+import { ClientRequest, IncomingMessage } from 'http';
+import { Directive, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { interpolate, isKnownVariable, referencedVariables } from './variables';
+
+// Interface for a `name value` header directive
+export interface HeaderDirective {
+  name: string;
+  value: string;
+}
+
+// Interface for an `add_header` directive
+export interface AddHeaderDirective extends HeaderDirective {
+  always: boolean;
+}
+
+// Header directives in effect for a location
+export interface HeaderConfig {
+  proxySetHeaders: HeaderDirective[];
+  proxyHideHeaders: string[];
+  addHeaders: AddHeaderDirective[];
+}
+
+export const EMPTY_HEADER_CONFIG: HeaderConfig = {
+  proxySetHeaders: [],
+  proxyHideHeaders: [],
+  addHeaders: []
+};
+
+// Status codes add_header applies to without the `always` parameter
+const ADD_HEADER_STATUSES = [200, 201, 204, 206, 301, 302, 303, 304, 307, 308];
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+const checkArgCount = (directive: Directive, min: number, max: number): void => {
+  if (directive.args.length < min || directive.args.length > max) {
+    throw configError(directive, `invalid number of arguments in "${directive.name}" directive`);
+  }
+};
+
+const checkVariables = (directive: Directive, value: string): void => {
+  for (const name of referencedVariables(value)) {
+    if (!isKnownVariable(name)) {
+      throw configError(directive, `unknown "${name}" variable`);
+    }
+  }
+};
+
+// Function to read the header directives of one config level. Like nginx, each
+// directive type is inherited from the enclosing level only when this level
+// declares none of its own.
+export function buildHeaderConfig(directives: Directive[], inherited: HeaderConfig): HeaderConfig {
+  const setDirectives = findDirectives(directives, 'proxy_set_header');
+  const hideDirectives = findDirectives(directives, 'proxy_hide_header');
+  const addDirectives = findDirectives(directives, 'add_header');
+
+  const proxySetHeaders = setDirectives.map(directive => {
+    checkArgCount(directive, 2, 2);
+    checkVariables(directive, directive.args[1]);
+    return { name: directive.args[0], value: directive.args[1] };
+  });
+
+  const proxyHideHeaders = hideDirectives.map(directive => {
+    checkArgCount(directive, 1, 1);
+    return directive.args[0];
+  });
+
+  const addHeaders = addDirectives.map(directive => {
+    checkArgCount(directive, 2, 3);
+    if (directive.args.length === 3 && directive.args[2] !== 'always') {
+      throw configError(directive, `invalid parameter "${directive.args[2]}"`);
+    }
+    checkVariables(directive, directive.args[1]);
+    return { name: directive.args[0], value: directive.args[1], always: directive.args.length === 3 };
+  });
+
+  return {
+    proxySetHeaders: setDirectives.length > 0 ? proxySetHeaders : inherited.proxySetHeaders,
+    proxyHideHeaders: hideDirectives.length > 0 ? proxyHideHeaders : inherited.proxyHideHeaders,
+    addHeaders: addDirectives.length > 0 ? addHeaders : inherited.addHeaders
+  };
+}
+
+// Function to apply proxy_set_header to the request sent upstream. An empty
+// value removes the header, as in nginx.
+export function applyProxyRequestHeaders(proxyReq: ClientRequest, req: IncomingMessage, headers: HeaderConfig): void {
+  for (const header of headers.proxySetHeaders) {
+    const value = interpolate(header.value, req);
+    if (value === '') {
+      proxyReq.removeHeader(header.name);
+    } else {
+      proxyReq.setHeader(header.name, value);
+    }
+  }
+}
+
+// Function to apply proxy_hide_header and add_header to the upstream response
+// before it is copied to the client
+export function applyProxyResponseHeaders(proxyRes: IncomingMessage, req: IncomingMessage, headers: HeaderConfig): void {
+  for (const name of headers.proxyHideHeaders) {
+    delete proxyRes.headers[name.toLowerCase()];
+  }
+
+  for (const header of headers.addHeaders) {
+    if (!header.always && !ADD_HEADER_STATUSES.includes(proxyRes.statusCode || 0)) {
+      continue;
+    }
+    const value = interpolate(header.value, req);
+    if (value !== '') {
+      proxyRes.headers[header.name.toLowerCase()] = value;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { ClientRequest, ServerResponse, STATUS_CODES } from 'http';
+import { Socket } from 'net';
+import { Directive, findDirective } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration, parseSize } from '../config/values';
+
+// Failures of `proxy_next_upstream` that pass a request to the next backend
+export type NextUpstreamCondition = 'error' | 'timeout' | 'invalid_header' | 'http_500' | 'http_502' |
+  'http_503' | 'http_504' | 'http_403' | 'http_404' | 'http_429';
+
+// Interface for the retry and backend timeout settings of a location
+export interface NextUpstreamConfig {
+  // proxy_next_upstream: failures passed to the next backend, none when off
+  conditions: NextUpstreamCondition[];
+  // proxy_next_upstream non_idempotent: also retry POST, LOCK and PATCH
+  // requests that reached a backend
+  nonIdempotent: boolean;
+  // proxy_next_upstream_tries: most attempts in all, 0 for no limit
+  tries: number;
+  // proxy_next_upstream_timeout: no new attempt starts after this long, 0 for no limit
+  timeout: number;
+  // proxy_connect_timeout and proxy_read_timeout
+  connectTimeout: number;
+  readTimeout: number;
+  // client_body_buffer_size: bodies up to this size are kept so they can be
+  // sent again
+  bodyBufferSize: number;
+}
+
+// How an attempt at a backend failed: a connection error, a timeout, a
+// response that isn't HTTP, or a status listed by proxy_next_upstream
+export type UpstreamFailure = NextUpstreamCondition;
+
+// Interface for what the attempts at serving one request have used up so far
+export interface RetryBudget {
+  tries: number;
+  startedAt: number;
+}
+
+export const DEFAULT_NEXT_UPSTREAM: NextUpstreamConfig = {
+  conditions: ['error', 'timeout'],
+  nonIdempotent: false,
+  tries: 0,
+  timeout: 0,
+  connectTimeout: 60000,
+  readTimeout: 60000,
+  bodyBufferSize: 16 * 1024
+};
+
+const CONDITIONS: NextUpstreamCondition[] = ['error', 'timeout', 'invalid_header', 'http_500', 'http_502',
+  'http_503', 'http_504', 'http_403', 'http_404', 'http_429'];
+// nginx doesn't send these to another backend once they reached one
+const NON_IDEMPOTENT_METHODS = ['POST', 'LOCK', 'PATCH'];
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read a directive taking a single time value
+const parseTime = (directive: Directive): number => {
+  const time = directive.args.length === 1 ? parseDuration(directive.args[0]) : null;
+  if (time === null) {
+    throw configError(directive, `invalid value in "${directive.name}" directive, it must be a time`);
+  }
+  return time;
+};
+
+// Function to read `proxy_next_upstream`, `proxy_next_upstream_tries`,
+// `proxy_next_upstream_timeout`, `proxy_connect_timeout`, `proxy_read_timeout`
+// and `client_body_buffer_size` of one config level, each inherited separately
+export function buildNextUpstreamConfig(directives: Directive[], inherited: NextUpstreamConfig): NextUpstreamConfig {
+  const config = { ...inherited };
+
+  const nextUpstream = findDirective(directives, 'proxy_next_upstream');
+  if (nextUpstream) {
+    const off = nextUpstream.args.length === 1 && nextUpstream.args[0] === 'off';
+    const invalid = off
+      ? undefined
+      : nextUpstream.args.find(arg => arg !== 'non_idempotent' && !CONDITIONS.includes(arg as NextUpstreamCondition));
+    if (nextUpstream.args.length === 0 || invalid) {
+      throw configError(nextUpstream, `invalid value "${invalid || ''}" in "proxy_next_upstream" directive`);
+    }
+    config.conditions = off ? [] : nextUpstream.args.filter(arg => arg !== 'non_idempotent') as NextUpstreamCondition[];
+    config.nonIdempotent = nextUpstream.args.includes('non_idempotent');
+  }
+
+  const tries = findDirective(directives, 'proxy_next_upstream_tries');
+  if (tries) {
+    if (tries.args.length !== 1 || !/^\d+$/.test(tries.args[0])) {
+      throw configError(tries, 'invalid value in "proxy_next_upstream_tries" directive, it must be a number');
+    }
+    config.tries = Number(tries.args[0]);
+  }
+
+  const timeout = findDirective(directives, 'proxy_next_upstream_timeout');
+  if (timeout) {
+    config.timeout = parseTime(timeout);
+  }
+  const connectTimeout = findDirective(directives, 'proxy_connect_timeout');
+  if (connectTimeout) {
+    config.connectTimeout = parseTime(connectTimeout);
+  }
+  const readTimeout = findDirective(directives, 'proxy_read_timeout');
+  if (readTimeout) {
+    config.readTimeout = parseTime(readTimeout);
+  }
+
+  const bufferSize = findDirective(directives, 'client_body_buffer_size');
+  if (bufferSize) {
+    const size = bufferSize.args.length === 1 ? parseSize(bufferSize.args[0]) : null;
+    if (size === null) {
+      throw configError(bufferSize, 'invalid value in "client_body_buffer_size" directive, it must be a size');
+    }
+    config.bodyBufferSize = size;
+  }
+
+  return config;
+}
+
+// Function to enforce proxy_connect_timeout and proxy_read_timeout on a
+// request to a backend. `onConnect` is called once the request can have
+// reached the backend; `onTimeout` just before a timed out request is aborted.
+// http-proxy hands the request over once it has a socket, so the socket may
+// already be there.
+export function applyUpstreamTimeouts(
+  proxyReq: ClientRequest,
+  config: NextUpstreamConfig,
+  onConnect: () => void,
+  onTimeout: () => void
+): void {
+  const abort = (message: string) => {
+    onTimeout();
+    proxyReq.destroy(Object.assign(new Error(message), { code: 'ETIMEDOUT' }));
+  };
+
+  const watchSocket = (socket: Socket) => {
+    if (!socket.connecting) {
+      onConnect();
+      return;
+    }
+    const connecting = setTimeout(() => abort('upstream timed out while connecting'), config.connectTimeout);
+    socket.once('connect', () => {
+      clearTimeout(connecting);
+      onConnect();
+    });
+    socket.once('close', () => clearTimeout(connecting));
+  };
+  if (proxyReq.socket) {
+    watchSocket(proxyReq.socket as Socket);
+  } else {
+    proxyReq.once('socket', watchSocket);
+  }
+  // Idle time between reads, from sending the request to the end of the response
+  proxyReq.setTimeout(config.readTimeout, () => abort('upstream timed out while reading the response'));
+}
+
+// Function to classify an error proxying to a backend
+export function proxyFailure(error: Error & { code?: string }, timedOut: boolean): UpstreamFailure {
+  if (timedOut) {
+    return 'timeout';
+  }
+  return error.code?.startsWith('HPE_') ? 'invalid_header' : 'error';
+}
+
+// Function to classify a backend's response status as a failure, or null
+export function statusFailure(statusCode: number): UpstreamFailure | null {
+  const condition = `http_${statusCode}` as NextUpstreamCondition;
+  return CONDITIONS.includes(condition) ? condition : null;
+}
+
+// Function to tell whether a request may be sent again: nginx doesn't resend
+// non-idempotent requests that already reached a backend
+export function canResend(config: NextUpstreamConfig, method: string, reachedBackend: boolean): boolean {
+  return !reachedBackend || !NON_IDEMPOTENT_METHODS.includes(method) || config.nonIdempotent;
+}
+
+// Function to tell whether a failed attempt may be passed to the next
+// backend, like nginx: the failure is listed, the request wasn't a
+// non-idempotent one that already reached a backend, and neither
+// proxy_next_upstream_tries nor proxy_next_upstream_timeout ran out
+export function canRetry(
+  failure: UpstreamFailure,
+  config: NextUpstreamConfig,
+  method: string,
+  reachedBackend: boolean,
+  budget: RetryBudget,
+  now: number = Date.now()
+): boolean {
+  if (!config.conditions.includes(failure)) {
+    return false;
+  }
+  if (!canResend(config, method, reachedBackend)) {
+    return false;
+  }
+  if (config.tries > 0 && budget.tries >= config.tries) {
+    return false;
+  }
+  return config.timeout === 0 || now - budget.startedAt < config.timeout;
+}
+
+// Function to tell whether a failure counts against the backend's max_fails,
+// as in nginx: 403 and 404 responses never do
+export function countsAsFailure(failure: UpstreamFailure): boolean {
+  return failure !== 'http_403' && failure !== 'http_404';
+}
+
+// Function to render an error page the way nginx does
+export function errorPage(statusCode: number): string {
+  const title = `${statusCode} ${STATUS_CODES[statusCode] || 'Error'}`;
+  return `<html>\r\n<head><title>${title}</title></head>\r\n<body>\r\n<center><h1>${title}</h1></center>\r\n` +
+    '<hr><center>nginclaude</center>\r\n</body>\r\n</html>\r\n';
+}
+
+// Function to answer with an error page, or to cut the response short when
+// part of it was already sent
+export function sendErrorPage(res: ServerResponse, statusCode: number): void {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  const page = errorPage(statusCode);
+  res.writeHead(statusCode, { 'content-type': 'text/html', 'content-length': Buffer.byteLength(page) });
+  res.end(page);
+}
@@ -0,0 +1,343 @@
+import { IncomingMessage } from 'http';
+import { Directive, SourceLocation, findDirective, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseParam, parseSize } from '../config/values';
+import { interpolate, isKnownVariable, referencedVariables } from './variables';
+
+// Interface for a `limit_req_zone` or `limit_conn_zone` directive
+export interface LimitZone {
+  name: string;
+  // Template built from nginx variables, e.g. "$binary_remote_addr"
+  key: string;
+  // How many keys the zone can track, from its size like nginx: 64 bytes each
+  capacity: number;
+  // limit_req_zone only: requests per second, e.g. 0.5 for 30r/m
+  rate?: number;
+}
+
+// Interface for the zones declared in the http context
+export interface LimitZones {
+  requests: Map<string, LimitZone>;
+  connections: Map<string, LimitZone>;
+}
+
+// Interface for a `limit_req` or `llm_limit_req` directive
+export interface LimitReq {
+  zone: string;
+  // Requests allowed in excess of the rate before rejecting
+  burst: number;
+  // Excess requests passed without delay: 0 by default, `delay=N`, or all of
+  // them with `nodelay`
+  delay: number;
+  loc: SourceLocation;
+}
+
+// Interface for a `limit_conn` directive
+export interface LimitConn {
+  zone: string;
+  max: number;
+  loc: SourceLocation;
+}
+
+// Interface for the rate limiting settings of a location
+export interface RateLimitConfig {
+  // limit_req and limit_req_status
+  requests: LimitReq[];
+  requestStatus: number;
+  // limit_conn and limit_conn_status
+  connections: LimitConn[];
+  connectionStatus: number;
+  // llm_limit_req: routing engine calls, over which the config routes instead
+  llmRequests: LimitReq[];
+}
+
+// Outcome of checking a request against limit_req
+export type LimitReqResult =
+  | { status: 'pass'; delay: number }
+  | { status: 'reject'; zone: string; excess: number };
+
+// Outcome of taking a connection slot; `release` must be called once the
+// request is done
+export type LimitConnResult =
+  | { status: 'pass'; release: () => void }
+  | { status: 'reject'; zone: string };
+
+// Interface for the runtime state of every zone
+export interface RateLimiter {
+  limitRequest(req: IncomingMessage, limits: LimitReq[], zones: LimitZones): LimitReqResult;
+  acquireConnection(req: IncomingMessage, limits: LimitConn[], zones: LimitZones): LimitConnResult;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  requests: [],
+  requestStatus: 503,
+  connections: [],
+  connectionStatus: 503,
+  llmRequests: []
+};
+
+// nginx fits about 16 thousand states in a megabyte
+const STATE_SIZE = 64;
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read the key and `zone=name:size` shared by both zone directives
+function parseZone(directive: Directive): LimitZone & { params: string[] } {
+  const [key, ...params] = directive.args;
+  if (!key || params.length === 0) {
+    throw configError(directive, `invalid number of arguments in "${directive.name}" directive`);
+  }
+  for (const name of referencedVariables(key)) {
+    if (!isKnownVariable(name)) {
+      throw configError(directive, `unknown "${name}" variable`);
+    }
+  }
+
+  const zoneParam = params.find(param => param.startsWith('zone='));
+  if (!zoneParam) {
+    throw configError(directive, `no zone in "${directive.name}" directive`);
+  }
+  const zone = zoneParam.slice('zone='.length).match(/^([\w-]+):(\w+)$/);
+  const size = zone ? parseSize(zone[2]) : null;
+  if (!zone || !size) {
+    throw configError(directive, `invalid zone size "${zoneParam.slice('zone='.length)}"`);
+  }
+
+  return {
+    name: zone[1],
+    key,
+    capacity: Math.max(Math.floor(size / STATE_SIZE), 1),
+    params: params.filter(param => param !== zoneParam)
+  };
+}
+
+// Function to read the `limit_req_zone <key> zone=<name>:<size> rate=<N>r/s|r/m`
+// and `limit_conn_zone <key> zone=<name>:<size>` directives of the http context
+export function buildLimitZones(httpDirectives: Directive[]): LimitZones {
+  const zones: LimitZones = { requests: new Map(), connections: new Map() };
+
+  for (const directive of findDirectives(httpDirectives, 'limit_req_zone')) {
+    const { params, ...zone } = parseZone(directive);
+    const rateParam = params.find(param => param.startsWith('rate='));
+    const unknown = params.find(param => param !== rateParam);
+    if (unknown) {
+      throw configError(directive, `invalid parameter "${unknown}"`);
+    }
+    if (!rateParam) {
+      throw configError(directive, 'no rate in "limit_req_zone" directive');
+    }
+    const rate = rateParam.match(/^rate=([1-9]\d*)r\/([sm])$/);
+    if (!rate) {
+      throw configError(directive, `invalid rate "${rateParam.slice('rate='.length)}"`);
+    }
+    if (zones.requests.has(zone.name)) {
+      throw configError(directive, `duplicate zone "${zone.name}"`);
+    }
+    zones.requests.set(zone.name, { ...zone, rate: Number(rate[1]) / (rate[2] === 'm' ? 60 : 1) });
+  }
+
+  for (const directive of findDirectives(httpDirectives, 'limit_conn_zone')) {
+    const { params, ...zone } = parseZone(directive);
+    if (params.length > 0) {
+      throw configError(directive, `invalid parameter "${params[0]}"`);
+    }
+    if (zones.connections.has(zone.name)) {
+      throw configError(directive, `duplicate zone "${zone.name}"`);
+    }
+    zones.connections.set(zone.name, zone);
+  }
+
+  return zones;
+}
+
+// Function to read `limit_req zone=<name> [burst=N] [nodelay | delay=N]`.
+// Engine calls can't be delayed, so `llm_limit_req` only takes a burst.
+function parseLimitReq(directive: Directive): LimitReq {
+  const delays = directive.name === 'limit_req';
+  const limit: LimitReq = { zone: '', burst: 0, delay: 0, loc: directive.loc };
+  let nodelay = false;
+
+  for (const arg of directive.args) {
+    const param = parseParam(arg);
+    if (arg === 'nodelay' && delays) {
+      nodelay = true;
+    } else if (param?.key === 'zone' && param.value) {
+      limit.zone = param.value;
+    } else if ((param?.key === 'burst' || (param?.key === 'delay' && delays)) && /^\d+$/.test(param.value)) {
+      limit[param.key] = Number(param.value);
+    } else {
+      throw configError(directive, `invalid parameter "${arg}"`);
+    }
+  }
+  if (!limit.zone) {
+    throw configError(directive, `no zone in "${directive.name}" directive`);
+  }
+  if (nodelay || !delays) {
+    limit.delay = Infinity;
+  }
+  return limit;
+}
+
+// Function to read a `limit_req_status` or `limit_conn_status` code
+function parseLimitStatus(directive: Directive): number {
+  const status = directive.args.length === 1 ? Number(directive.args[0]) : NaN;
+  if (!Number.isInteger(status) || status < 400 || status > 599) {
+    throw configError(directive, `value must be between 400 and 599 in "${directive.name}" directive`);
+  }
+  return status;
+}
+
+// Function to read `limit_req`, `limit_conn`, their `_status` directives and
+// `llm_limit_req` of one config level, each inherited separately
+export function buildRateLimitConfig(directives: Directive[], inherited: RateLimitConfig): RateLimitConfig {
+  const config = { ...inherited };
+
+  const requests = findDirectives(directives, 'limit_req');
+  if (requests.length > 0) {
+    config.requests = requests.map(parseLimitReq);
+  }
+
+  const connections = findDirectives(directives, 'limit_conn');
+  if (connections.length > 0) {
+    config.connections = connections.map(directive => {
+      const [zone, max] = directive.args;
+      if (directive.args.length !== 2) {
+        throw configError(directive, 'invalid number of arguments in "limit_conn" directive');
+      }
+      if (!/^[1-9]\d*$/.test(max)) {
+        throw configError(directive, `invalid number of connections "${max}"`);
+      }
+      return { zone, max: Number(max), loc: directive.loc };
+    });
+  }
+
+  const llmRequests = findDirectives(directives, 'llm_limit_req');
+  if (llmRequests.length > 0) {
+    config.llmRequests = llmRequests.map(parseLimitReq);
+  }
+
+  const requestStatus = findDirective(directives, 'limit_req_status');
+  if (requestStatus) {
+    config.requestStatus = parseLimitStatus(requestStatus);
+  }
+
+  const connectionStatus = findDirective(directives, 'limit_conn_status');
+  if (connectionStatus) {
+    config.connectionStatus = parseLimitStatus(connectionStatus);
+  }
+
+  return config;
+}
+
+// Function to check every limit names a zone of the right kind
+export function checkLimitZones(configs: RateLimitConfig[], zones: LimitZones): void {
+  for (const config of configs) {
+    for (const limit of [...config.requests, ...config.llmRequests]) {
+      if (!zones.requests.has(limit.zone)) {
+        throw new NginxConfigError(`unknown limit_req_zone "${limit.zone}"`, limit.loc.file, limit.loc.line, limit.loc.column);
+      }
+    }
+    for (const limit of config.connections) {
+      if (!zones.connections.has(limit.zone)) {
+        throw new NginxConfigError(`unknown limit_conn_zone "${limit.zone}"`, limit.loc.file, limit.loc.line, limit.loc.column);
+      }
+    }
+  }
+}
+
+// Interface for the leaky bucket of one key, as in nginx: how many requests
+// over the rate it holds, and when it was last updated
+interface BucketState {
+  excess: number;
+  last: number;
+}
+
+// Function to create the runtime state of the zones. Zones are looked up by
+// their definition, so a reload keeps the state of zones that didn't change.
+export function createRateLimiter(now: () => number = Date.now): RateLimiter {
+  const buckets = new Map<string, Map<string, BucketState>>();
+  const connections = new Map<string, Map<string, number>>();
+
+  const zoneState = <T>(states: Map<string, Map<string, T>>, zone: LimitZone): Map<string, T> => {
+    const id = `${zone.name}|${zone.key}|${zone.capacity}|${zone.rate ?? ''}`;
+    const state = states.get(id) || new Map<string, T>();
+    states.set(id, state);
+    return state;
+  };
+
+  return {
+    limitRequest(req, limits, zones) {
+      const time = now();
+      const updates: { state: Map<string, BucketState>; key: string; bucket: BucketState; capacity: number }[] = [];
+      let delay = 0;
+
+      for (const limit of limits) {
+        const zone = zones.requests.get(limit.zone) as LimitZone;
+        const key = interpolate(zone.key, req);
+        // Like nginx, requests with an empty key are not limited
+        if (!key) {
+          continue;
+        }
+
+        const state = zoneState(buckets, zone);
+        const bucket = state.get(key);
+        const elapsed = bucket ? Math.max(time - bucket.last, 0) : 0;
+        const excess = Math.max((bucket?.excess ?? -1) - (zone.rate as number) * elapsed / 1000 + 1, 0);
+        if (excess > limit.burst) {
+          return { status: 'reject', zone: limit.zone, excess };
+        }
+
+        updates.push({ state, key, bucket: { excess, last: time }, capacity: zone.capacity });
+        if (excess > limit.delay) {
+          delay = Math.max(delay, (excess - limit.delay) * 1000 / (zone.rate as number));
+        }
+      }
+
+      // Only requests that pass every limit are accounted
+      for (const { state, key, bucket, capacity } of updates) {
+        state.delete(key);
+        state.set(key, bucket);
+        // The least recently seen keys make room, as in nginx
+        if (state.size > capacity) {
+          state.delete(state.keys().next().value as string);
+        }
+      }
+      return { status: 'pass', delay: Math.round(delay) };
+    },
+
+    acquireConnection(req, limits, zones) {
+      const taken: { state: Map<string, number>; key: string }[] = [];
+      const release = () => {
+        for (const { state, key } of taken.splice(0)) {
+          const count = (state.get(key) || 1) - 1;
+          if (count > 0) {
+            state.set(key, count);
+          } else {
+            state.delete(key);
+          }
+        }
+      };
+
+      for (const limit of limits) {
+        const zone = zones.connections.get(limit.zone) as LimitZone;
+        const key = interpolate(zone.key, req);
+        if (!key) {
+          continue;
+        }
+
+        const state = zoneState(connections, zone);
+        const count = state.get(key) || 0;
+        // A full zone can't track another key, so nginx turns it away too
+        if (count >= limit.max || (count === 0 && state.size >= zone.capacity)) {
+          release();
+          return { status: 'reject', zone: limit.zone };
+        }
+        state.set(key, count + 1);
+        taken.push({ state, key });
+      }
+
+      return { status: 'pass', release };
+    }
+  };
+}
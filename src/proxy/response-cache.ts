@@ -0,0 +1,660 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { Directive, SourceLocation, findDirective, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration, parseParam, parseSize } from '../config/values';
+import { interpolate, isKnownVariable, referencedVariables } from './variables';
+
+// Interface for a `proxy_cache_path` directive
+export interface CacheZone {
+  name: string;
+  // Directory the responses are kept in, or null for `memory`
+  path: string | null;
+  // Subdirectory name lengths taken from the end of the file name, e.g. [1, 2]
+  levels: number[];
+  // How many responses the zone can index, from its size like nginx: about 8
+  // thousand per megabyte
+  capacity: number;
+  // Total size of the cached bodies
+  maxSize: number;
+  // Responses not requested for this long are removed, fresh or not
+  inactive: number;
+}
+
+// Interface for a `proxy_cache_valid` directive
+export interface CacheValidity {
+  // Status codes it applies to; empty for `any`
+  statuses: number[];
+  time: number;
+}
+
+// Conditions of `proxy_cache_use_stale` under which a stale response is served
+export type StaleCondition = 'error' | 'timeout' | 'updating' | 'http_500' | 'http_502' | 'http_503' |
+  'http_504' | 'http_403' | 'http_404' | 'http_429';
+
+// Interface for the response cache settings of a location
+export interface ProxyCacheConfig {
+  // proxy_cache: the zone responses are cached in, or null when off
+  zone: string | null;
+  // Template built from nginx variables, e.g. "$scheme$host$request_uri"
+  key: string;
+  valid: CacheValidity[];
+  methods: string[];
+  useStale: StaleCondition[];
+  // Where proxy_cache was declared
+  loc: SourceLocation | null;
+}
+
+// Interface for a response kept in a cache zone
+export interface CachedResponse {
+  statusCode: number;
+  headers: OutgoingHttpHeaders;
+  body: Buffer;
+  // Values of the request headers named by Vary, by lowercase name
+  vary: Record<string, string>;
+  storedAt: number;
+  // The response is fresh until then
+  expiresAt: number;
+  // From Cache-Control: how long after expiresAt it may still be served while
+  // it is refreshed, and when the backend fails
+  staleWhileRevalidate: number;
+  staleIfError: number;
+}
+
+// Interface for the responses of one zone
+export interface ResponseStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, response: CachedResponse): Promise<void>;
+  stats(): { entries: number; size: number };
+}
+
+// Interface for the runtime state of every zone
+export interface ResponseCache {
+  store(zone: CacheZone): ResponseStore;
+}
+
+// X-Cache-Status values, like nginx's $upstream_cache_status
+export type CacheStatus = 'MISS' | 'EXPIRED' | 'HIT' | 'STALE' | 'UPDATING';
+
+export const DEFAULT_PROXY_CACHE: ProxyCacheConfig = {
+  zone: null,
+  key: '$scheme$host$request_uri',
+  valid: [],
+  methods: ['GET', 'HEAD'],
+  useStale: [],
+  loc: null
+};
+
+// nginx fits about 8 thousand keys in a megabyte
+const KEY_SIZE = 128;
+const DEFAULT_INACTIVE = 10 * 60 * 1000;
+// Memory zones need a bound; nginx's disk zones have none by default
+const DEFAULT_MEMORY_MAX_SIZE = 64 * 1024 * 1024;
+// Responses are held in memory until complete, so larger ones pass uncached
+const MAX_CACHED_RESPONSE = 64 * 1024 * 1024;
+// Statuses proxy_cache_valid applies to when it names none
+const DEFAULT_VALID_STATUSES = [200, 301, 302];
+const STALE_CONDITIONS: StaleCondition[] = ['error', 'timeout', 'updating', 'http_500', 'http_502', 'http_503',
+  'http_504', 'http_403', 'http_404', 'http_429'];
+// Response headers that describe the connection rather than the response
+const UNCACHED_HEADERS = ['connection', 'keep-alive', 'transfer-encoding', 'x-cache-status'];
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read the `proxy_cache_path <path> | memory keys_zone=<name>:<size>
+// [levels=1:2] [inactive=time] [max_size=size]` directives of the http context
+export function buildCacheZones(httpDirectives: Directive[]): Map<string, CacheZone> {
+  const zones = new Map<string, CacheZone>();
+
+  for (const directive of findDirectives(httpDirectives, 'proxy_cache_path')) {
+    const [location, ...params] = directive.args;
+    if (!location || params.length === 0) {
+      throw configError(directive, 'invalid number of arguments in "proxy_cache_path" directive');
+    }
+
+    const zone: CacheZone = {
+      name: '',
+      path: location === 'memory' ? null : path.resolve(path.dirname(directive.loc.file), location),
+      levels: [],
+      capacity: 0,
+      maxSize: location === 'memory' ? DEFAULT_MEMORY_MAX_SIZE : Infinity,
+      inactive: DEFAULT_INACTIVE
+    };
+    for (const arg of params) {
+      const param = parseParam(arg);
+      const keysZone = param?.key === 'keys_zone' ? param.value.match(/^([\w-]+):(\w+)$/) : null;
+      const size = param && (param.key === 'keys_zone' ? parseSize(keysZone?.[2] || '') : parseSize(param.value));
+      const inactive = param?.key === 'inactive' ? parseDuration(param.value) : null;
+
+      if (keysZone && size) {
+        zone.name = keysZone[1];
+        zone.capacity = Math.max(Math.floor(size / KEY_SIZE), 1);
+      } else if (param?.key === 'keys_zone') {
+        throw configError(directive, `invalid keys zone size "${param.value}"`);
+      } else if (param?.key === 'levels' && /^[12](:[12]){0,2}$/.test(param.value) && zone.path) {
+        zone.levels = param.value.split(':').map(Number);
+      } else if (param?.key === 'inactive' && inactive) {
+        zone.inactive = inactive;
+      } else if (param?.key === 'max_size' && size) {
+        zone.maxSize = size;
+      } else if (param?.key !== 'use_temp_path' || !zone.path) {
+        // Writes always go through a temporary file next to the response
+        throw configError(directive, `invalid parameter "${arg}"`);
+      }
+    }
+
+    if (!zone.name) {
+      throw configError(directive, '"proxy_cache_path" must have "keys_zone" parameter');
+    }
+    if (zones.has(zone.name)) {
+      throw configError(directive, `duplicate zone "${zone.name}"`);
+    }
+    zones.set(zone.name, zone);
+  }
+
+  return zones;
+}
+
+// Function to read `proxy_cache_valid [code ...] [any] <time>`
+function parseCacheValidity(directive: Directive): CacheValidity {
+  const codes = directive.args.slice(0, -1);
+  const time = parseDuration(directive.args[directive.args.length - 1] || '');
+  if (time === null) {
+    throw configError(directive, `invalid time value "${directive.args[directive.args.length - 1] || ''}"`);
+  }
+
+  const invalid = codes.find(code => code !== 'any' && !/^[1-5]\d\d$/.test(code));
+  if (invalid) {
+    throw configError(directive, `invalid value "${invalid}"`);
+  }
+  if (codes.includes('any')) {
+    return { statuses: [], time };
+  }
+  return { statuses: codes.length > 0 ? codes.map(Number) : DEFAULT_VALID_STATUSES, time };
+}
+
+// Function to read `proxy_cache <zone> | off`, `proxy_cache_key`,
+// `proxy_cache_valid`, `proxy_cache_methods` and `proxy_cache_use_stale` of one
+// config level, each inherited separately
+export function buildProxyCacheConfig(directives: Directive[], inherited: ProxyCacheConfig): ProxyCacheConfig {
+  const config = { ...inherited };
+
+  const cache = findDirective(directives, 'proxy_cache');
+  if (cache) {
+    if (cache.args.length !== 1) {
+      throw configError(cache, 'invalid number of arguments in "proxy_cache" directive');
+    }
+    config.zone = cache.args[0] === 'off' ? null : cache.args[0];
+    config.loc = cache.loc;
+  }
+
+  const key = findDirective(directives, 'proxy_cache_key');
+  if (key) {
+    if (key.args.length !== 1) {
+      throw configError(key, 'invalid number of arguments in "proxy_cache_key" directive');
+    }
+    for (const name of referencedVariables(key.args[0])) {
+      if (!isKnownVariable(name)) {
+        throw configError(key, `unknown "${name}" variable`);
+      }
+    }
+    config.key = key.args[0];
+  }
+
+  const valid = findDirectives(directives, 'proxy_cache_valid');
+  if (valid.length > 0) {
+    config.valid = valid.map(parseCacheValidity);
+  }
+
+  const methods = findDirective(directives, 'proxy_cache_methods');
+  if (methods) {
+    const invalid = methods.args.find(method => !['GET', 'HEAD', 'POST'].includes(method.toUpperCase()));
+    if (methods.args.length === 0 || invalid) {
+      throw configError(methods, `invalid value "${invalid || ''}" in "proxy_cache_methods" directive`);
+    }
+    // Like nginx, GET and HEAD are always cached
+    config.methods = [...new Set(['GET', 'HEAD', ...methods.args.map(method => method.toUpperCase())])];
+  }
+
+  const useStale = findDirective(directives, 'proxy_cache_use_stale');
+  if (useStale) {
+    const off = useStale.args.length === 1 && useStale.args[0] === 'off';
+    const invalid = off ? undefined : useStale.args.find(arg => !STALE_CONDITIONS.includes(arg as StaleCondition));
+    if (useStale.args.length === 0 || invalid) {
+      throw configError(useStale, `invalid value "${invalid || ''}" in "proxy_cache_use_stale" directive`);
+    }
+    config.useStale = off ? [] : useStale.args as StaleCondition[];
+  }
+
+  return config;
+}
+
+// Function to check every proxy_cache names a zone declared by proxy_cache_path
+export function checkCacheZones(configs: ProxyCacheConfig[], zones: Map<string, CacheZone>): void {
+  for (const config of configs) {
+    if (config.zone !== null && !zones.has(config.zone)) {
+      const loc = config.loc as SourceLocation;
+      throw new NginxConfigError(`unknown proxy_cache zone "${config.zone}"`, loc.file, loc.line, loc.column);
+    }
+  }
+}
+
+// Function to build the cache key of a request, or null when its method isn't cached
+export function responseCacheKey(req: IncomingMessage, config: ProxyCacheConfig): string | null {
+  if (config.zone === null || !config.methods.includes(req.method || '')) {
+    return null;
+  }
+  return interpolate(config.key, req);
+}
+
+// Function to read a response header as text, whatever form it was set in
+const headerText = (headers: OutgoingHttpHeaders, name: string): string => {
+  const value = headers[name];
+  return Array.isArray(value) ? value.join(', ') : value === undefined ? '' : String(value);
+};
+
+// Function to read the Cache-Control directives of a response, by name
+function parseCacheControl(headers: OutgoingHttpHeaders): Map<string, string> {
+  const directives = new Map<string, string>();
+  for (const part of headerText(headers, 'cache-control').split(',')) {
+    const [name, value = ''] = part.trim().split('=');
+    if (name) {
+      directives.set(name.toLowerCase(), value.replace(/^"|"$/g, ''));
+    }
+  }
+  return directives;
+}
+
+// Function to tell for how long a response may be cached, like nginx:
+// Cache-Control or Expires when the backend sends them, proxy_cache_valid
+// otherwise. Returns null for responses that mustn't be cached.
+export function cacheLifetime(
+  statusCode: number,
+  headers: OutgoingHttpHeaders,
+  valid: CacheValidity[],
+  now: number = Date.now()
+): { ttl: number; staleWhileRevalidate: number; staleIfError: number } | null {
+  const cacheControl = parseCacheControl(headers);
+  if (['no-cache', 'no-store', 'private'].some(name => cacheControl.has(name))) {
+    return null;
+  }
+  // Responses that set cookies or vary on everything are per-client
+  if (headers['set-cookie'] !== undefined || headerText(headers, 'vary').trim() === '*') {
+    return null;
+  }
+
+  const seconds = (name: string) => (/^\d+$/.test(cacheControl.get(name) || '') ? Number(cacheControl.get(name)) * 1000 : null);
+  const expires = headers.expires !== undefined ? Date.parse(headerText(headers, 'expires')) : NaN;
+  const rule = valid.find(({ statuses }) => statuses.length === 0 || statuses.includes(statusCode));
+
+  let ttl: number | null;
+  if (seconds('s-maxage') !== null || seconds('max-age') !== null) {
+    ttl = seconds('s-maxage') ?? seconds('max-age');
+  } else if (headers.expires !== undefined) {
+    // An invalid date means already expired
+    ttl = Number.isNaN(expires) ? 0 : expires - now;
+  } else {
+    ttl = rule ? rule.time : null;
+  }
+
+  if (ttl === null || ttl <= 0) {
+    return null;
+  }
+  return {
+    ttl,
+    staleWhileRevalidate: seconds('stale-while-revalidate') || 0,
+    staleIfError: seconds('stale-if-error') || 0
+  };
+}
+
+// Function to build the entry for a complete response, or null when it
+// mustn't be cached. `req` provides the values of the headers named by Vary.
+export function toCachedResponse(
+  req: IncomingMessage,
+  statusCode: number,
+  headers: OutgoingHttpHeaders,
+  body: Buffer,
+  config: ProxyCacheConfig,
+  now: number = Date.now()
+): CachedResponse | null {
+  const lifetime = cacheLifetime(statusCode, headers, config.valid, now);
+  if (!lifetime) {
+    return null;
+  }
+
+  const stored: OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!UNCACHED_HEADERS.includes(name) && value !== undefined) {
+      stored[name] = value;
+    }
+  }
+  const vary: Record<string, string> = {};
+  for (const name of headerText(headers, 'vary').split(',').map(name => name.trim().toLowerCase()).filter(Boolean)) {
+    vary[name] = String(req.headers[name] ?? '');
+  }
+
+  return {
+    statusCode,
+    headers: stored,
+    body,
+    vary,
+    storedAt: now,
+    expiresAt: now + lifetime.ttl,
+    staleWhileRevalidate: lifetime.staleWhileRevalidate,
+    staleIfError: lifetime.staleIfError
+  };
+}
+
+// Function to check a cached response was stored for a request with the same
+// values of the headers it varies on
+export function varyMatches(response: CachedResponse, req: IncomingMessage): boolean {
+  return Object.entries(response.vary).every(([name, value]) => String(req.headers[name] ?? '') === value);
+}
+
+// Function to tell how a cached response can be used for a request: `HIT`
+// while fresh, `UPDATING` when it may be served stale while it is refreshed in
+// the background, `EXPIRED` when the backend must be asked
+export function cachedResponseStatus(
+  response: CachedResponse,
+  config: ProxyCacheConfig,
+  now: number = Date.now()
+): 'HIT' | 'UPDATING' | 'EXPIRED' {
+  if (now < response.expiresAt) {
+    return 'HIT';
+  }
+  if (config.useStale.includes('updating') || now < response.expiresAt + response.staleWhileRevalidate) {
+    return 'UPDATING';
+  }
+  return 'EXPIRED';
+}
+
+// Function to tell whether a stale response may stand in for an error from the
+// backend. Connection errors reach the client as 502 and timeouts as 504.
+export function staleOnError(
+  response: CachedResponse,
+  statusCode: number,
+  config: ProxyCacheConfig,
+  now: number = Date.now()
+): boolean {
+  if (statusCode < 500 && ![403, 404, 429].includes(statusCode)) {
+    return false;
+  }
+  const conditions: string[] = config.useStale;
+  if (conditions.includes(`http_${statusCode}`) ||
+    (statusCode === 502 && conditions.includes('error')) ||
+    (statusCode === 504 && conditions.includes('timeout'))) {
+    return true;
+  }
+  return statusCode >= 500 && now < response.expiresAt + response.staleIfError;
+}
+
+// Function to send a cached response, labelled with how the cache served it.
+// HEAD requests get the headers only.
+export function sendCachedResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  response: CachedResponse,
+  status: CacheStatus,
+  now: number = Date.now()
+): void {
+  res.writeHead(response.statusCode, {
+    ...response.headers,
+    age: String(Math.max(Math.floor((now - response.storedAt) / 1000), 0)),
+    'content-length': String(response.body.length),
+    'x-cache-status': status
+  });
+  res.end(req.method === 'HEAD' ? undefined : response.body);
+}
+
+// Interface for what captureResponse does with a response on its way to the client
+export interface ResponseCapture {
+  // Largest body worth keeping
+  maxSize: number;
+  // Called with the status before any header is sent; returning a cached
+  // response sends it instead, and whatever the backend sends is dropped
+  replace(statusCode: number): CachedResponse | undefined;
+  // Called with the complete response once it was sent in full
+  complete(statusCode: number, headers: OutgoingHttpHeaders, body: Buffer): void;
+}
+
+// Function to watch a response on its way to the client, whichever proxy
+// path sends it, so it can be cached or swapped for a stale copy
+export function captureResponse(req: IncomingMessage, res: ServerResponse, capture: ResponseCapture): void {
+  const writeHead = res.writeHead;
+  const write = res.write;
+  const end = res.end;
+  const limit = Math.min(capture.maxSize, MAX_CACHED_RESPONSE);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let decided = false;
+  let replaced = false;
+  let headers: OutgoingHttpHeaders = {};
+
+  const keep = (chunk: unknown, encoding?: unknown) => {
+    if (typeof chunk !== 'string' && !(chunk instanceof Uint8Array)) {
+      return;
+    }
+    const buffer = typeof chunk === 'string'
+      ? Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8')
+      : Buffer.from(chunk);
+    size += buffer.length;
+    if (size <= limit) {
+      chunks.push(buffer);
+    }
+  };
+
+  // Decided once, before anything reaches the client: whatever is sent first
+  // (the headers, a chunk of body or the end) carries the status
+  const swapStale = (statusCode: number): boolean => {
+    if (decided) {
+      return replaced;
+    }
+    decided = true;
+    const stale = capture.replace(statusCode);
+    if (!stale) {
+      return false;
+    }
+
+    replaced = true;
+    res.writeHead = writeHead;
+    res.write = write;
+    res.end = end;
+    for (const name of res.getHeaderNames()) {
+      res.removeHeader(name);
+    }
+    sendCachedResponse(req, res, stale, 'STALE');
+    // The backend's response goes nowhere
+    res.writeHead = function (this: ServerResponse) {
+      return this;
+    } as typeof res.writeHead;
+    res.write = (() => true) as typeof res.write;
+    res.end = function (this: ServerResponse) {
+      return this;
+    } as typeof res.end;
+    return true;
+  };
+
+  res.writeHead = function (this: ServerResponse, statusCode: number, ...args: unknown[]) {
+    if (swapStale(statusCode)) {
+      return this;
+    }
+    const passed = args.find(arg => typeof arg === 'object' && arg !== null) as OutgoingHttpHeaders | undefined;
+    headers = { ...res.getHeaders() };
+    for (const [name, value] of Object.entries(passed || {})) {
+      headers[name.toLowerCase()] = value;
+    }
+    return writeHead.apply(this, [statusCode, ...args] as Parameters<typeof writeHead>);
+  } as typeof res.writeHead;
+  res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]) {
+    if (!res.headersSent && swapStale(res.statusCode)) {
+      return true;
+    }
+    keep(chunk, args[0]);
+    return write.apply(this, [chunk, ...args] as Parameters<typeof write>);
+  } as typeof res.write;
+  res.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]) {
+    if (!res.headersSent && swapStale(res.statusCode)) {
+      return this;
+    }
+    if (typeof chunk !== 'function') {
+      keep(chunk, args[0]);
+    }
+    return end.apply(this, [chunk, ...args] as Parameters<typeof end>);
+  } as typeof res.end;
+
+  res.on('finish', () => {
+    if (!replaced && size <= limit && req.method !== 'HEAD') {
+      capture.complete(res.statusCode, headers, Buffer.concat(chunks));
+    }
+  });
+}
+
+// Interface for what a zone's index keeps about each response
+interface IndexEntry {
+  size: number;
+  lastUsed: number;
+  // Memory zones only
+  response?: CachedResponse;
+}
+
+// Function to create the index of a zone: least recently used first, trimmed
+// to the zone's capacity, size and inactive time. `evict` removes whatever
+// else is kept for a dropped key.
+function createZoneIndex(zone: CacheZone, now: () => number, evict: (key: string) => void) {
+  const entries = new Map<string, IndexEntry>();
+  let size = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entries.delete(key);
+      size -= entry.size;
+      evict(key);
+    }
+  };
+
+  return {
+    entries,
+    size: () => size,
+    touch(key: string): IndexEntry | undefined {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.lastUsed + zone.inactive <= now()) {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, { ...entry, lastUsed: now() });
+      return entries.get(key);
+    },
+    add(key: string, entry: Omit<IndexEntry, 'lastUsed'>) {
+      remove(key);
+      entries.set(key, { ...entry, lastUsed: now() });
+      size += entry.size;
+      for (const [oldest, { lastUsed }] of entries) {
+        const full = entries.size > zone.capacity || size > zone.maxSize;
+        if (!full && lastUsed + zone.inactive > now()) {
+          break;
+        }
+        remove(oldest);
+      }
+    },
+    remove
+  };
+}
+
+// Function to create a zone kept in memory
+function createMemoryStore(zone: CacheZone, now: () => number): ResponseStore {
+  const index = createZoneIndex(zone, now, () => undefined);
+
+  return {
+    async get(key) {
+      return index.touch(key)?.response;
+    },
+    async set(key, response) {
+      index.add(key, { size: response.body.length, response });
+    },
+    stats: () => ({ entries: index.entries.size, size: index.size() })
+  };
+}
+
+// Function to create a zone kept on disk, one file per response: a line of
+// JSON metadata, then the body. Responses stored before a restart are found
+// again when first requested.
+function createDiskStore(zone: CacheZone, now: () => number): ResponseStore {
+  const directory = zone.path as string;
+  const fileFor = (key: string) => {
+    const hash = crypto.createHash('md5').update(key).digest('hex');
+    let end = hash.length;
+    const levels = zone.levels.map(length => {
+      end -= length;
+      return hash.slice(end, end + length);
+    });
+    return path.join(directory, ...levels, hash);
+  };
+  const index = createZoneIndex(zone, now, key => {
+    fs.promises.unlink(fileFor(key)).catch(() => undefined);
+  });
+
+  const read = async (key: string): Promise<CachedResponse | undefined> => {
+    const data = await fs.promises.readFile(fileFor(key)).catch(() => null);
+    const header = data ? data.indexOf('\n') : -1;
+    if (!data || header < 0) {
+      return undefined;
+    }
+    try {
+      const { key: storedKey, ...metadata } = JSON.parse(data.subarray(0, header).toString());
+      // Different keys may share a hash
+      return storedKey === key ? { ...metadata, body: data.subarray(header + 1) } : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    async get(key) {
+      const known = index.entries.has(key);
+      if (known && !index.touch(key)) {
+        return undefined;
+      }
+      const response = await read(key);
+      if (!response) {
+        index.remove(key);
+      } else if (!known) {
+        index.add(key, { size: response.body.length });
+      }
+      return response;
+    },
+    async set(key, response) {
+      const file = fileFor(key);
+      const { body, ...metadata } = response;
+      const temporary = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}`;
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(temporary, Buffer.concat([Buffer.from(`${JSON.stringify({ key, ...metadata })}\n`), body]));
+      await fs.promises.rename(temporary, file);
+      index.add(key, { size: body.length });
+    },
+    stats: () => ({ entries: index.entries.size, size: index.size() })
+  };
+}
+
+// Function to create the runtime state of the cache zones. Zones are looked up
+// by their definition, so a reload keeps the responses of zones that didn't
+// change.
+export function createResponseCache(now: () => number = Date.now): ResponseCache {
+  const stores = new Map<string, ResponseStore>();
+
+  return {
+    store(zone) {
+      const id = `${zone.name}|${zone.path ?? 'memory'}|${zone.levels.join(':')}|${zone.capacity}|${zone.maxSize}|${zone.inactive}`;
+      const store = stores.get(id) || (zone.path ? createDiskStore(zone, now) : createMemoryStore(zone, now));
+      stores.set(id, store);
+      return store;
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import { IncomingMessage, STATUS_CODES } from 'http';
+import { Duplex } from 'stream';
+import { Directive, findDirective } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { HeaderConfig } from './headers';
+import { interpolate } from './variables';
+
+export type ProxyHttpVersion = '1.0' | '1.1';
+
+// nginx talks HTTP/1.0 to backends unless told otherwise, which rules out upgrades
+export const DEFAULT_PROXY_HTTP_VERSION: ProxyHttpVersion = '1.0';
+
+// Function to read `proxy_http_version 1.0 | 1.1`
+export function buildProxyHttpVersion(directives: Directive[], inherited: ProxyHttpVersion): ProxyHttpVersion {
+  const directive = findDirective(directives, 'proxy_http_version');
+  if (!directive) {
+    return inherited;
+  }
+
+  const [version] = directive.args;
+  if (directive.args.length !== 1 || (version !== '1.0' && version !== '1.1')) {
+    throw new NginxConfigError(
+      `invalid value "${version}" in "proxy_http_version" directive, it must be "1.0" or "1.1"`,
+      directive.loc.file, directive.loc.line, directive.loc.column
+    );
+  }
+  return version;
+}
+
+// Function to check whether a request asks to switch protocols
+export function isUpgradeRequest(req: IncomingMessage): boolean {
+  return req.headers.upgrade !== undefined && /\bupgrade\b/i.test(String(req.headers.connection || ''));
+}
+
+// Function to explain why a location can't pass an upgrade on, or null when it
+// can. Like nginx, a location needs `proxy_http_version 1.1` and has to set
+// the hop-by-hop Upgrade and Connection headers itself, e.g.
+//   proxy_set_header Upgrade $http_upgrade;
+//   proxy_set_header Connection "upgrade";
+export function upgradeProblem(
+  req: IncomingMessage,
+  httpVersion: ProxyHttpVersion,
+  headers: HeaderConfig
+): string | null {
+  if (httpVersion !== '1.1') {
+    return 'the location does not set "proxy_http_version 1.1"';
+  }
+
+  const setHeader = (name: string): string => {
+    const header = headers.proxySetHeaders.find(candidate => candidate.name.toLowerCase() === name);
+    return header ? interpolate(header.value, req) : '';
+  };
+  if (!setHeader('upgrade')) {
+    return 'the location does not pass the Upgrade header on with "proxy_set_header Upgrade $http_upgrade"';
+  }
+  if (!/\bupgrade\b/i.test(setHeader('connection'))) {
+    return 'the location does not set "proxy_set_header Connection upgrade"';
+  }
+  return null;
+}
+
+// Function to answer an upgrade request with a plain HTTP error and hang up
+export function rejectUpgrade(socket: Duplex, status: number): void {
+  const reason = STATUS_CODES[status] || 'Error';
+  if (!socket.writable) {
+    socket.destroy();
+    return;
+  }
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Type: text/plain\r\n` +
+    `Content-Length: ${Buffer.byteLength(reason)}\r\n\r\n${reason}`, () => socket.destroy());
+}
@@ -0,0 +1,88 @@
+import { IncomingMessage } from 'http';
+import { TLSSocket } from 'tls';
+
+// Resolves one nginx variable for a request
+type VariableResolver = (req: IncomingMessage) => string;
+
+const headerValue = (req: IncomingMessage, name: string): string => {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(', ') : value || '';
+};
+
+// The URL as the client sent it; Express rewrites req.url for mounted apps
+const requestUri = (req: IncomingMessage): string =>
+  (req as IncomingMessage & { originalUrl?: string }).originalUrl || req.url || '/';
+
+// Path segments that identify a resource rather than a route: numbers, UUIDs
+// and long hex or token-like strings
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{12,}|[\w-]{24,})$/i;
+
+// Variables with a fixed name, see https://nginx.org/en/docs/varindex.html
+const VARIABLES: Record<string, VariableResolver> = {
+  host: req => headerValue(req, 'host').replace(/:\d+$/, '').toLowerCase(),
+  remote_addr: req => req.socket.remoteAddress || '',
+  // nginx packs the address into 4 or 16 bytes to save zone memory; as a key
+  // the address itself does the same job
+  binary_remote_addr: req => req.socket.remoteAddress || '',
+  remote_port: req => String(req.socket.remotePort || ''),
+  server_port: req => String(req.socket.localPort || ''),
+  request_method: req => req.method || '',
+  request_uri: requestUri,
+  uri: req => requestUri(req).split('?')[0],
+  // nginclaude extension: $uri with resource IDs replaced, e.g. /users/42 -> /users/:id
+  uri_template: req => requestUri(req).split('?')[0]
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/'),
+  args: req => requestUri(req).split('?').slice(1).join('?'),
+  is_args: req => (requestUri(req).includes('?') ? '?' : ''),
+  scheme: req => ((req.socket as TLSSocket).encrypted ? 'https' : 'http'),
+  proxy_add_x_forwarded_for: req => {
+    const forwarded = headerValue(req, 'x-forwarded-for');
+    const remote = req.socket.remoteAddress || '';
+    return forwarded ? `${forwarded}, ${remote}` : remote;
+  }
+};
+
+// Variables whose name carries a parameter, e.g. $http_user_agent
+const PREFIXED_VARIABLES: Record<string, (req: IncomingMessage, suffix: string) => string> = {
+  http_: (req, suffix) => headerValue(req, suffix.replace(/_/g, '-')),
+  arg_: (req, suffix) => new URLSearchParams(VARIABLES.args(req)).get(suffix) || ''
+};
+
+const VARIABLE_PATTERN = /\$(?:\{(\w+)\}|(\w+))/g;
+
+// Function to check whether a variable name is one nginclaude can resolve
+export function isKnownVariable(name: string): boolean {
+  if (Object.prototype.hasOwnProperty.call(VARIABLES, name)) {
+    return true;
+  }
+  return Object.keys(PREFIXED_VARIABLES).some(prefix => name.startsWith(prefix) && name.length > prefix.length);
+}
+
+// Function to list the variable names referenced in a directive argument
+export function referencedVariables(template: string): string[] {
+  return [...template.matchAll(VARIABLE_PATTERN)].map(match => match[1] || match[2]);
+}
+
+// Function to resolve a single variable; unknown variables resolve to an empty string
+export function resolveVariable(name: string, req: IncomingMessage): string {
+  if (Object.prototype.hasOwnProperty.call(VARIABLES, name)) {
+    return VARIABLES[name](req);
+  }
+
+  for (const [prefix, resolve] of Object.entries(PREFIXED_VARIABLES)) {
+    if (name.startsWith(prefix)) {
+      return resolve(req, name.slice(prefix.length));
+    }
+  }
+
+  return '';
+}
+
+// Function to expand `$name` and `${name}` references in a directive argument
+export function interpolate(template: string, req: IncomingMessage): string {
+  return template.replace(VARIABLE_PATTERN, (_match, braced: string, bare: string) =>
+    resolveVariable(braced || bare, req)
+  );
+}
@@ -0,0 +1,279 @@
+import { Directive } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration, parseParam } from '../config/values';
+
+// Where a circuit breaker stands: calls go through (closed), the config
+// routes every request (open), or a few requests probe the engine (half-open)
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// How a call let through a circuit breaker went. Calls given up on, e.g. when
+// the upstream won a race, are `ignored`.
+export type CallResult = 'success' | 'failure' | 'ignored';
+
+// Function to report how a call let through went; only the first report counts
+export type CallReport = (result: CallResult) => void;
+
+// Interface for the `llm_circuit_breaker` settings of a server block
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  // Opens after this many failed calls in a row...
+  failures: number;
+  // ...or once this share of the calls within `window` failed, when there
+  // were at least `minCalls` of them
+  errorRate: number;
+  window: number;
+  minCalls: number;
+  // How long it stays open before probing
+  openFor: number;
+  // Share of requests that probe the engine while half-open
+  probeShare: number;
+  // Successful probes that close it again, and the most probes at a time
+  probes: number;
+}
+
+// Interface for a change of state, as logged and shown in /proxy-status
+export interface CircuitTransition {
+  at: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+}
+
+// Interface for a circuit breaker's state in /proxy-status
+export interface CircuitSnapshot {
+  state: CircuitState;
+  since: string;
+  consecutiveFailures: number;
+  // Calls and failed calls within the window while closed
+  calls: number;
+  failures: number;
+  // Latest transitions, oldest first
+  transitions: CircuitTransition[];
+}
+
+// Interface for the circuit breaker around one engine
+export interface CircuitBreaker {
+  // Function to let a call to the engine through, returning how to report its
+  // outcome, or null when the request should be routed by the config
+  admit(): CallReport | null;
+  snapshot(): CircuitSnapshot;
+}
+
+// Interface for the circuit breakers of every engine
+export interface CircuitBreakers {
+  breaker(engine: string, config: CircuitBreakerConfig): CircuitBreaker;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  enabled: true,
+  failures: 5,
+  errorRate: 0.5,
+  window: 60000,
+  minCalls: 10,
+  openFor: 30000,
+  probeShare: 0.1,
+  probes: 3
+};
+
+// Transitions kept per breaker for /proxy-status
+const MAX_TRANSITIONS = 20;
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to parse a share like "50%" into 0.5, or null
+const parsePercent = (value: string): number | null => {
+  const percent = value.match(/^(\d+)%$/);
+  return percent && Number(percent[1]) >= 1 && Number(percent[1]) <= 100 ? Number(percent[1]) / 100 : null;
+};
+
+// Function to parse a positive whole number, or null
+const parseCount = (value: string): number | null => (/^[1-9]\d*$/.test(value) ? Number(value) : null);
+
+// Function to parse a time longer than zero, or null
+const parseTime = (value: string): number | null => parseDuration(value) || null;
+
+// How each `llm_circuit_breaker` parameter is read, and the setting it sets
+const PARAMS: Record<string, { field: Exclude<keyof CircuitBreakerConfig, 'enabled'>; parse: (value: string) => number | null }> = {
+  failures: { field: 'failures', parse: parseCount },
+  error_rate: { field: 'errorRate', parse: parsePercent },
+  window: { field: 'window', parse: parseTime },
+  min_calls: { field: 'minCalls', parse: parseCount },
+  open: { field: 'openFor', parse: parseTime },
+  probe: { field: 'probeShare', parse: parsePercent },
+  probes: { field: 'probes', parse: parseCount }
+};
+
+// Function to read `llm_circuit_breaker off | [failures=N] [error_rate=N%]
+// [window=time] [min_calls=N] [open=time] [probe=N%] [probes=N]`. Parameters
+// left out take their defaults.
+export function buildCircuitBreakerConfig(directive: Directive): CircuitBreakerConfig {
+  if (directive.args.length === 1 && directive.args[0] === 'off') {
+    return { ...DEFAULT_CIRCUIT_BREAKER, enabled: false };
+  }
+  if (directive.args.length === 0) {
+    throw configError(directive, 'invalid number of arguments in "llm_circuit_breaker" directive');
+  }
+
+  const config = { ...DEFAULT_CIRCUIT_BREAKER };
+  for (const arg of directive.args) {
+    const param = parseParam(arg);
+    const known = param && Object.prototype.hasOwnProperty.call(PARAMS, param.key) ? PARAMS[param.key] : undefined;
+    if (!param || !known) {
+      throw configError(directive, `invalid parameter "${arg}" in "llm_circuit_breaker" directive`);
+    }
+    const value = known.parse(param.value);
+    if (value === null) {
+      throw configError(directive, `invalid "${param.key}" value "${param.value}" in "llm_circuit_breaker" directive`);
+    }
+    config[known.field] = value;
+  }
+  return config;
+}
+
+// Function to create the circuit breaker around one engine
+function createCircuitBreaker(
+  engine: string,
+  config: CircuitBreakerConfig,
+  onTransition: (engine: string, transition: CircuitTransition) => void,
+  now: () => number,
+  random: () => number
+): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let since = now();
+  // Bumped on every transition, so calls started in an earlier state don't count
+  let generation = 0;
+  let consecutiveFailures = 0;
+  // Outcomes of the calls within the window, oldest first
+  let calls: { at: number; failed: boolean }[] = [];
+  let failures = 0;
+  let probesInFlight = 0;
+  let probesSucceeded = 0;
+  const transitions: CircuitTransition[] = [];
+
+  const moveTo = (to: CircuitState, reason: string) => {
+    const transition = { at: new Date(now()).toISOString(), from: state, to, reason };
+    state = to;
+    since = now();
+    generation += 1;
+    consecutiveFailures = 0;
+    calls = [];
+    failures = 0;
+    probesInFlight = 0;
+    probesSucceeded = 0;
+    transitions.push(transition);
+    if (transitions.length > MAX_TRANSITIONS) {
+      transitions.shift();
+    }
+    onTransition(engine, transition);
+  };
+
+  // An open circuit starts probing once `open` has passed
+  const currentState = (): CircuitState => {
+    if (state === 'open' && now() - since >= config.openFor) {
+      moveTo('half-open', `open for ${config.openFor / 1000}s`);
+    }
+    return state;
+  };
+
+  const dropExpiredCalls = (time: number) => {
+    while (calls.length > 0 && time - calls[0].at >= config.window) {
+      failures -= (calls.shift() as { failed: boolean }).failed ? 1 : 0;
+    }
+  };
+
+  const recordCall = (failed: boolean) => {
+    const time = now();
+    dropExpiredCalls(time);
+    calls.push({ at: time, failed });
+    failures += failed ? 1 : 0;
+    consecutiveFailures = failed ? consecutiveFailures + 1 : 0;
+
+    if (consecutiveFailures >= config.failures) {
+      moveTo('open', `${consecutiveFailures} calls failed in a row`);
+    } else if (failed && calls.length >= config.minCalls && failures / calls.length >= config.errorRate) {
+      moveTo('open', `${failures} of ${calls.length} calls failed within ${config.window / 1000}s`);
+    }
+  };
+
+  const recordProbe = (result: CallResult) => {
+    probesInFlight -= 1;
+    if (result === 'failure') {
+      moveTo('open', 'a probe failed');
+    } else if (result === 'success') {
+      probesSucceeded += 1;
+      if (probesSucceeded >= config.probes) {
+        moveTo('closed', `${probesSucceeded} probes succeeded`);
+      }
+    }
+  };
+
+  const report = (probe: boolean): CallReport => {
+    const startedIn = generation;
+    let reported = false;
+    return result => {
+      if (reported || startedIn !== generation) {
+        return;
+      }
+      reported = true;
+      if (probe) {
+        recordProbe(result);
+      } else if (result !== 'ignored') {
+        recordCall(result === 'failure');
+      }
+    };
+  };
+
+  return {
+    admit() {
+      const current = currentState();
+      if (current === 'open') {
+        return null;
+      }
+      if (current === 'half-open') {
+        if (probesInFlight >= config.probes || random() >= config.probeShare) {
+          return null;
+        }
+        probesInFlight += 1;
+        return report(true);
+      }
+      return report(false);
+    },
+
+    snapshot() {
+      const current = currentState();
+      dropExpiredCalls(now());
+      return {
+        state: current,
+        since: new Date(since).toISOString(),
+        consecutiveFailures,
+        calls: calls.length,
+        failures,
+        transitions: [...transitions]
+      };
+    }
+  };
+}
+
+// Function to create the circuit breakers of every engine. Breakers are
+// looked up by engine and settings, so a reload keeps the state of those that
+// didn't change.
+export function createCircuitBreakers(
+  onTransition: (engine: string, transition: CircuitTransition) => void = () => undefined,
+  now: () => number = Date.now,
+  random: () => number = Math.random
+): CircuitBreakers {
+  const breakers = new Map<string, CircuitBreaker>();
+
+  return {
+    breaker(engine, config) {
+      const id = `${engine}|${JSON.stringify(config)}`;
+      let breaker = breakers.get(id);
+      if (!breaker) {
+        breaker = createCircuitBreaker(engine, config, onTransition, now, random);
+        breakers.set(id, breaker);
+      }
+      return breaker;
+    }
+  };
+}
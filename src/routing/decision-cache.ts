@@ -0,0 +1,153 @@
+import { IncomingMessage } from 'http';
+import { Directive, findDirective } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration } from '../config/values';
+import { interpolate, isKnownVariable, referencedVariables } from '../proxy/variables';
+import { RoutingDecision } from './llm-router';
+
+// Interface for the llm_cache settings of a location
+export interface LlmCacheConfig {
+  // How long a decision is reused; 0 disables caching
+  ttl: number;
+  // Template built from nginx variables, e.g. "$request_method $uri_template"
+  key: string;
+  methods: string[];
+}
+
+export const DEFAULT_LLM_CACHE: LlmCacheConfig = {
+  ttl: 60000,
+  key: '$request_method $uri_template',
+  methods: ['GET', 'HEAD']
+};
+
+export const DEFAULT_LLM_CACHE_MAX_SIZE = 1000;
+
+// Interface for cache statistics, as reported by /proxy-status
+export interface DecisionCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  size: number;
+  maxSize: number;
+}
+
+// Interface for the routing decision cache
+export interface DecisionCache {
+  get(key: string): RoutingDecision | undefined;
+  set(key: string, decision: RoutingDecision, ttl: number): void;
+  clear(): void;
+  stats(): DecisionCacheStats;
+}
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read `llm_cache off | <time>`, `llm_cache_key <template>` and
+// `llm_cache_methods <method>...`, each inherited separately
+export function buildLlmCacheConfig(directives: Directive[], inherited: LlmCacheConfig): LlmCacheConfig {
+  const config = { ...inherited };
+
+  const cache = findDirective(directives, 'llm_cache');
+  if (cache) {
+    const ttl = cache.args.length === 1 && cache.args[0] === 'off' ? 0 : parseDuration(cache.args[0] || '');
+    if (cache.args.length !== 1 || ttl === null) {
+      throw configError(cache, 'invalid value in "llm_cache" directive, it must be "off" or a time');
+    }
+    config.ttl = ttl;
+  }
+
+  const key = findDirective(directives, 'llm_cache_key');
+  if (key) {
+    if (key.args.length === 0) {
+      throw configError(key, 'invalid number of arguments in "llm_cache_key" directive');
+    }
+    config.key = key.args.join(' ');
+    for (const name of referencedVariables(config.key)) {
+      if (!isKnownVariable(name)) {
+        throw configError(key, `unknown "${name}" variable`);
+      }
+    }
+  }
+
+  const methods = findDirective(directives, 'llm_cache_methods');
+  if (methods) {
+    if (methods.args.length === 0) {
+      throw configError(methods, 'invalid number of arguments in "llm_cache_methods" directive');
+    }
+    config.methods = methods.args.map(method => method.toUpperCase());
+  }
+
+  return config;
+}
+
+// Function to read `llm_cache_max_size <entries>` from the http context
+export function buildLlmCacheMaxSize(httpDirectives: Directive[]): number {
+  const directive = findDirective(httpDirectives, 'llm_cache_max_size');
+  if (!directive) {
+    return DEFAULT_LLM_CACHE_MAX_SIZE;
+  }
+  if (directive.args.length !== 1 || !/^[1-9]\d*$/.test(directive.args[0])) {
+    throw configError(directive, 'invalid value in "llm_cache_max_size" directive');
+  }
+  return Number(directive.args[0]);
+}
+
+// Function to build the cache key of a request, or null when the request
+// shouldn't be cached. `scope` keeps server blocks apart.
+export function decisionCacheKey(req: IncomingMessage, scope: string, config: LlmCacheConfig): string | null {
+  if (config.ttl === 0 || !config.methods.includes(req.method || '')) {
+    return null;
+  }
+  return `${scope}|${interpolate(config.key, req)}`;
+}
+
+// Function to create an LRU cache of routing decisions. Map iteration order is
+// insertion order, so re-inserting on every hit keeps the least recently used
+// entry first in line for eviction.
+export function createDecisionCache(maxSize: number = DEFAULT_LLM_CACHE_MAX_SIZE): DecisionCache {
+  const entries = new Map<string, { decision: RoutingDecision; expiresAt: number }>();
+  let hits = 0;
+  let misses = 0;
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        if (entry) {
+          entries.delete(key);
+        }
+        misses++;
+        return undefined;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.decision;
+    },
+
+    set(key, decision, ttl) {
+      entries.delete(key);
+      entries.set(key, { decision, expiresAt: Date.now() + ttl });
+
+      while (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    clear() {
+      entries.clear();
+    },
+
+    stats() {
+      const lookups = hits + misses;
+      return {
+        hits,
+        misses,
+        hitRate: lookups > 0 ? hits / lookups : 0,
+        size: entries.size,
+        maxSize
+      };
+    }
+  };
+}
@@ -0,0 +1,155 @@
+import { anthropic } from '@ai-sdk/anthropic';
+import { LanguageModelV1 } from 'ai';
+import { Directive, findDirective, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration } from '../config/values';
+import { RouteConfig } from './routes';
+import { RoutingDecision, RoutingRequest, createLlmEngine } from './llm-router';
+import { matchRoute } from './location-matcher';
+import { LlmRule } from './llm-rules';
+import { CircuitBreakerConfig, DEFAULT_CIRCUIT_BREAKER, buildCircuitBreakerConfig } from './circuit-breaker';
+import { DEFAULT_MOCK_SCRIPT, MockModelScript, createMockModel } from './mock-model';
+
+export type EngineType = 'llm' | 'rules';
+export type ModelProvider = 'anthropic' | 'mock';
+
+// Interface for the routing engine settings of a server block
+export interface EngineConfig {
+  engine: EngineType;
+  provider: ModelProvider;
+  model: string;
+  // Only used by the mock provider
+  mock: MockModelScript;
+  // llm_circuit_breaker around the model calls
+  circuitBreaker: CircuitBreakerConfig;
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  engine: 'llm',
+  provider: 'anthropic',
+  model: 'claude-3-haiku-20240307',
+  mock: DEFAULT_MOCK_SCRIPT,
+  circuitBreaker: DEFAULT_CIRCUIT_BREAKER
+};
+
+// Interface for the tokens a model call used
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Interface for what an engine may consult besides the request and route table
+export interface RoutingContext {
+  isUp: (origin: string) => boolean;
+  abortSignal?: AbortSignal;
+  // Called with the tokens each model call used, including calls that failed
+  // after the model answered
+  onUsage?: (usage: TokenUsage) => void;
+  // llm_rule intent in effect for the request
+  rules?: LlmRule[];
+}
+
+// Interface for anything that can pick a route for a request
+export interface RoutingEngine {
+  // Shown in logs and /proxy-status, e.g. "llm anthropic/claude-3-haiku-20240307"
+  name: string;
+  // ID of the model the engine calls, for cost accounting; unset when it calls none
+  model?: string;
+  route(request: RoutingRequest, routes: RouteConfig[], context: RoutingContext): Promise<RoutingDecision>;
+}
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read a directive whose single argument must be one of `values`
+function oneOf<T extends string>(directive: Directive, values: T[]): T {
+  const [value] = directive.args;
+  if (directive.args.length !== 1 || !values.includes(value as T)) {
+    const expected = values.map(option => `"${option}"`).join(' or ');
+    throw configError(directive, `invalid value "${value}" in "${directive.name}" directive, it must be ${expected}`);
+  }
+  return value as T;
+}
+
+// Function to read `llm_engine`, `llm_provider`, `llm_model`,
+// `llm_circuit_breaker` and the `llm_mock_*` directives of one config level,
+// each inherited separately
+export function buildEngineConfig(directives: Directive[], inherited: EngineConfig): EngineConfig {
+  const config = { ...inherited, mock: { ...inherited.mock } };
+
+  const engine = findDirective(directives, 'llm_engine');
+  if (engine) {
+    config.engine = oneOf(engine, ['llm', 'rules']);
+  }
+
+  const provider = findDirective(directives, 'llm_provider');
+  if (provider) {
+    config.provider = oneOf(provider, ['anthropic', 'mock']);
+  }
+
+  const model = findDirective(directives, 'llm_model');
+  if (model) {
+    if (model.args.length !== 1) {
+      throw configError(model, 'invalid number of arguments in "llm_model" directive');
+    }
+    config.model = model.args[0];
+  }
+
+  const circuitBreaker = findDirective(directives, 'llm_circuit_breaker');
+  if (circuitBreaker) {
+    config.circuitBreaker = buildCircuitBreakerConfig(circuitBreaker);
+  }
+
+  const replies = findDirectives(directives, 'llm_mock_reply');
+  if (replies.length > 0) {
+    config.mock.replies = replies.map(reply => {
+      if (reply.args.length !== 1) {
+        throw configError(reply, 'invalid number of arguments in "llm_mock_reply" directive');
+      }
+      return reply.args[0];
+    });
+  }
+
+  const order = findDirective(directives, 'llm_mock_order');
+  if (order) {
+    config.mock.order = oneOf(order, ['sequence', 'random']);
+  }
+
+  const latency = findDirective(directives, 'llm_mock_latency');
+  if (latency) {
+    const duration = latency.args.length === 1 ? parseDuration(latency.args[0]) : null;
+    if (duration === null) {
+      throw configError(latency, 'invalid value in "llm_mock_latency" directive');
+    }
+    config.mock.latency = duration;
+  }
+
+  return config;
+}
+
+// Function to create an engine that routes exactly like the config does
+export function createRuleEngine(): RoutingEngine {
+  return {
+    name: 'rules',
+
+    async route(request, routes) {
+      const route = matchRoute(routes, request.url);
+      if (!route) {
+        throw new Error(`No location matches ${request.url}`);
+      }
+      return { routeId: route.id, confidence: 1, reasoning: 'Matched by the config' };
+    }
+  };
+}
+
+// Function to create the engine a server block is configured with
+export function createRoutingEngine(config: EngineConfig): RoutingEngine {
+  if (config.engine === 'rules') {
+    return createRuleEngine();
+  }
+
+  const model: LanguageModelV1 = config.provider === 'mock'
+    ? createMockModel(config.model, config.mock)
+    : anthropic(config.model);
+  return { ...createLlmEngine(`llm ${config.provider}/${config.model}`, model), model: config.model };
+}
@@ -0,0 +1,102 @@
+import { IncomingHttpHeaders } from 'http';
+import { ProxyConfig } from '../proxy-config';
+import { RequestBody } from '../proxy/body';
+import { RouteConfig } from './routes';
+import { matchRoute } from './location-matcher';
+import { RoutingDecision, RoutingRequest } from './llm-router';
+import { createRoutingEngine } from './engine';
+import { DEFAULT_LLM_CONTEXT, buildRoutingRequest } from './redaction';
+import { DEFAULT_LLM_BUDGET, withinBudget } from './latency-budget';
+import { RoutingValidation, validateDecision } from './validation';
+import { VirtualServer, selectServer } from './virtual-hosts';
+
+// Interface for a request to explain, as given on the command line
+export interface ExplainRequest {
+  method: string;
+  // Absolute URL, whose host and port pick the server block, or just a path
+  url: string;
+  headers?: IncomingHttpHeaders;
+  body?: string;
+}
+
+// What the engine made of the request
+export type EngineOutcome =
+  | { status: 'answered'; decision: RoutingDecision; validation: RoutingValidation }
+  | { status: 'timeout'; timeout: number }
+  | { status: 'error'; error: string };
+
+// Interface for how the proxy would route a request
+export interface RouteExplanation {
+  server: VirtualServer | null;
+  // Location the config picks on its own
+  expected: RouteConfig | null;
+  engine?: string;
+  // The request as the engine gets to see it, after llm_context redaction
+  request?: RoutingRequest;
+  outcome?: EngineOutcome;
+  // Route the proxy would use in the end, and the path it would send upstream
+  route: RouteConfig | null;
+  path: string;
+}
+
+// Function to work out how the proxy would route a request without sending
+// it anywhere: the server block, the location the config picks, and what the
+// server's engine picks within the location's latency budget. Every backend is
+// assumed to be up, since nothing is probed.
+export async function explainRequest(
+  config: ProxyConfig,
+  { method, url, headers = {}, body = '' }: ExplainRequest,
+  defaultTimeout: number
+): Promise<RouteExplanation> {
+  const absolute = /^https?:\/\//i.test(url) ? new URL(url) : null;
+  const path = absolute ? `${absolute.pathname}${absolute.search}` : url;
+  const requestHeaders = absolute && !headers.host ? { ...headers, host: absolute.host } : headers;
+  const port = absolute?.port ? Number(absolute.port) : undefined;
+
+  const server = selectServer(config.servers, port, requestHeaders.host);
+  if (!server) {
+    return { server, expected: null, route: null, path };
+  }
+
+  const expected = matchRoute(server.routes, path);
+  const budget = expected ? expected.llmBudget : DEFAULT_LLM_BUDGET;
+  const timeout = budget.timeout ?? defaultTimeout;
+  const llmContext = expected ? expected.llmContext : DEFAULT_LLM_CONTEXT;
+  const engine = createRoutingEngine(server.engine);
+
+  const preview = Buffer.from(body);
+  const requestBody: RequestBody = {
+    preview: preview.subarray(0, llmContext.bodyLimit),
+    truncated: preview.length > llmContext.bodyLimit,
+    stream: () => null
+  };
+  const request = buildRoutingRequest(method.toUpperCase(), path, requestHeaders, requestBody, llmContext);
+  const explanation: RouteExplanation = { server, expected, engine: engine.name, request, route: expected, path };
+
+  try {
+    const result = await withinBudget(
+      signal => engine.route(request, server.routes, {
+        isUp: () => true,
+        abortSignal: signal,
+        rules: expected ? expected.llmRules : []
+      }),
+      timeout
+    );
+    if (result.status !== 'answered') {
+      explanation.outcome = { status: 'timeout', timeout };
+      return explanation;
+    }
+
+    const decision = result.value;
+    const validation = validateDecision(decision, server.routes, expected);
+    explanation.outcome = { status: 'answered', decision, validation };
+    if (validation.accepted && validation.route) {
+      explanation.route = validation.route;
+      explanation.path = decision.path || path;
+    }
+  } catch (error) {
+    explanation.outcome = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return explanation;
+}
@@ -0,0 +1,134 @@
+import { Directive, findDirective } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration, parseFlag } from '../config/values';
+
+// Interface for the llm_timeout and llm_race settings of a location
+export interface LlmBudgetConfig {
+  // How long to wait for the model; null means ANTHROPIC_TIMEOUT
+  timeout: number | null;
+  // Start the config's own route right away and use the model only if it answers first
+  race: boolean;
+}
+
+export const DEFAULT_LLM_BUDGET: LlmBudgetConfig = {
+  timeout: null,
+  race: false
+};
+
+const DEFAULT_LLM_TIMEOUT = 10000;
+
+// Function to read the budget of locations without `llm_timeout` from
+// ANTHROPIC_TIMEOUT, in milliseconds. 10s when unset or not a positive whole
+// number, since a typo like "5s" would otherwise time out every model call.
+export function defaultLlmTimeout(): number {
+  const value = process.env.ANTHROPIC_TIMEOUT;
+  if (!value) {
+    return DEFAULT_LLM_TIMEOUT;
+  }
+  if (!/^[1-9]\d*$/.test(value)) {
+    console.warn(`Ignoring ANTHROPIC_TIMEOUT "${value}", it must be a number of milliseconds; using ${DEFAULT_LLM_TIMEOUT}`);
+    return DEFAULT_LLM_TIMEOUT;
+  }
+  return Number(value);
+}
+
+// How a request ended up routed: a cached decision, the model within budget,
+// the config after the budget ran out, the config's speculative request
+// answering before the model, the config after the model failed, or the
+// config in shadow mode
+export type RoutingWinner = 'cache' | 'llm' | 'timeout' | 'race' | 'fallback' | 'shadow';
+
+const ROUTING_WINNERS: RoutingWinner[] = ['cache', 'llm', 'timeout', 'race', 'fallback', 'shadow'];
+
+// Outcome of waiting for the model
+export type BudgetResult<T> =
+  | { status: 'answered'; value: T }
+  | { status: 'timeout' }
+  | { status: 'cancelled' };
+
+// Interface for per-path request counts, as reported by /proxy-status
+export interface RoutingStats {
+  record(winner: RoutingWinner): void;
+  snapshot(): Record<RoutingWinner, number>;
+}
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read `llm_timeout <time>` and `llm_race on | off`, each inherited separately
+export function buildLlmBudgetConfig(directives: Directive[], inherited: LlmBudgetConfig): LlmBudgetConfig {
+  const config = { ...inherited };
+
+  const timeout = findDirective(directives, 'llm_timeout');
+  if (timeout) {
+    const duration = timeout.args.length === 1 ? parseDuration(timeout.args[0]) : null;
+    if (!duration) {
+      throw configError(timeout, 'invalid value in "llm_timeout" directive');
+    }
+    config.timeout = duration;
+  }
+
+  const race = findDirective(directives, 'llm_race');
+  if (race) {
+    const enabled = race.args.length === 1 ? parseFlag(race.args[0]) : null;
+    if (enabled === null) {
+      throw configError(race, 'invalid value in "llm_race" directive, it must be "on" or "off"');
+    }
+    config.race = enabled;
+  }
+
+  return config;
+}
+
+// Function to run a model call with a deadline. The call is aborted when the
+// deadline passes or `cancel` fires; errors from the call are passed through.
+export function withinBudget<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeout: number,
+  cancel?: AbortSignal
+): Promise<BudgetResult<T>> {
+  const controller = new AbortController();
+
+  return new Promise((resolve, reject) => {
+    const stop = (result: BudgetResult<T>) => {
+      clearTimeout(timer);
+      cancel?.removeEventListener('abort', onCancel);
+      if (result.status !== 'answered') {
+        controller.abort();
+      }
+      resolve(result);
+    };
+    const onCancel = () => stop({ status: 'cancelled' });
+    const timer = setTimeout(() => stop({ status: 'timeout' }), timeout);
+
+    if (cancel?.aborted) {
+      onCancel();
+      return;
+    }
+    cancel?.addEventListener('abort', onCancel);
+
+    call(controller.signal).then(
+      value => stop({ status: 'answered', value }),
+      error => {
+        clearTimeout(timer);
+        cancel?.removeEventListener('abort', onCancel);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Function to create the routing path counters
+export function createRoutingStats(): RoutingStats {
+  const counts = Object.fromEntries(ROUTING_WINNERS.map(winner => [winner, 0])) as Record<RoutingWinner, number>;
+
+  return {
+    record(winner) {
+      counts[winner]++;
+    },
+
+    snapshot() {
+      return { ...counts };
+    }
+  };
+}
@@ -0,0 +1,135 @@
+import { IncomingHttpHeaders } from 'http';
+import { LanguageModelV1, NoObjectGeneratedError, generateObject } from 'ai';
+import { z } from 'zod';
+import { formatPoolMembers } from '../upstream/upstreams';
+import { RouteConfig, describeRoute, memberOrigin } from './routes';
+import { RoutingEngine } from './engine';
+import { LlmRule, describeRules } from './llm-rules';
+
+// Interface for the request details the model routes on, already redacted
+// (see buildRoutingRequest)
+export interface RoutingRequest {
+  method: string;
+  url: string;
+  // Left out when llm_context is off
+  headers?: IncomingHttpHeaders;
+  // Serialized body excerpt, only with llm_context full
+  body?: string;
+}
+
+// Interface for a routing decision
+export interface RoutingDecision {
+  // ID of the chosen route, see RouteConfig.id
+  routeId: string;
+  // Path and query to send upstream instead of the request's own
+  path?: string;
+  // 0 to 1
+  confidence?: number;
+  reasoning?: string;
+  // ID of the llm_rule the choice follows, see LlmRule.id
+  rule?: string;
+}
+
+// Function to build the schema of a decision; route IDs are limited to the
+// routes of the server block handling the request, rule IDs to the rules in
+// effect for it
+export function decisionSchema(routes: RouteConfig[], rules: LlmRule[] = []) {
+  const ids = routes.map(route => route.id) as [string, ...string[]];
+  const ruleIds = rules.map(rule => rule.id) as [string, ...string[]];
+
+  const schema = z.object({
+    routeId: z.enum(ids).describe('ID of the route that should handle the request'),
+    path: z.string().optional()
+      .describe('Only when the path must change: the path and query to send to the backend, starting with "/"'),
+    confidence: z.number().min(0).max(1).optional().describe('How sure you are, from 0 to 1'),
+    reasoning: z.string().optional().describe('One short sentence explaining the choice')
+  });
+  return rules.length > 0
+    ? schema.extend({ rule: z.enum(ruleIds).optional().describe('ID of the intent rule the choice follows, if one applies') })
+    : schema;
+}
+
+// Function to describe the backends of a route, including their health
+function describeBackends(route: RouteConfig, isUp: (origin: string) => boolean): string {
+  if (route.upstream) {
+    const members = formatPoolMembers(route.upstream, member => isUp(memberOrigin(route, member)));
+    return `upstream pool "${route.upstream.name}" (${members}); the proxy picks the member`;
+  }
+  const down = isUp(new URL(route.target).origin) ? '' : ', currently DOWN so avoid it';
+  return `${route.target}${down}`;
+}
+
+// Function to build the routing prompt for a request
+export function buildRoutingPrompt(
+  request: RoutingRequest,
+  routes: RouteConfig[],
+  isUp: (origin: string) => boolean,
+  rules: LlmRule[] = []
+): string {
+  const routingRules = routes
+    .map(route => `- Route "${route.id}": ${describeRoute(route)}. Served by ${describeBackends(route, isUp)}`)
+    .join('\n');
+
+  // Only what llm_context lets through is listed
+  const requestDetails = [
+    `- Method: ${request.method}`,
+    `- URL: ${request.url}`,
+    ...(request.headers ? [`- Headers: ${JSON.stringify(request.headers)}`] : []),
+    ...(request.body !== undefined ? [`- Body: ${request.body}`] : [])
+  ].join('\n');
+
+  // llm_rule intent, which may override the path rules
+  const intentRules = rules.length === 0 ? '' : `
+Intent Rules:
+${describeRules(rules)}
+
+When the request clearly fits an intent rule, it takes precedence over the path rules: choose one of the routes the rule allows and answer with the rule's ID. A rule may never send a request anywhere else.
+`;
+
+  return `
+You are a reverse proxy server similar to nginx. Your job is to analyze this incoming request and determine where it should be routed.
+Based on the routing rules from the nginv-proxy.conf file, you must decide which route should handle this request.
+
+Request:
+${requestDetails}
+
+Routing Rules from nginv-proxy.conf:
+${routingRules}
+
+Apply the rules like nginx does: an exact path match wins, then the longest matching prefix. Regular expressions are checked in the order listed and override the prefix unless it says no regex locations are checked. Match against the path only, ignoring the query string.
+${intentRules}
+Answer with the ID of the chosen route. Leave out the path unless the request must be sent to the backend under a different path.
+`;
+}
+
+// Function to create an engine that asks a language model which route should
+// handle a request
+export function createLlmEngine(name: string, model: LanguageModelV1): RoutingEngine {
+  return {
+    name,
+
+    async route(request, routes, { isUp, abortSignal, onUsage, rules = [] }) {
+      if (routes.length === 0) {
+        throw new Error('No routes to choose from');
+      }
+
+      try {
+        const { object, usage } = await generateObject({
+          model,
+          schema: decisionSchema(routes, rules),
+          prompt: buildRoutingPrompt(request, routes, isUp, rules),
+          abortSignal
+        });
+
+        onUsage?.(usage);
+        return object;
+      } catch (error) {
+        // An answer that doesn't fit the schema was still paid for
+        if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+          onUsage?.(error.usage);
+        }
+        throw error;
+      }
+    }
+  };
+}
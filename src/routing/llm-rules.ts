@@ -0,0 +1,53 @@
+import path from 'path';
+import { Directive, SourceLocation, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+
+// Interface for an `llm_rule` directive: routing intent in plain words, and
+// the routes it may send requests to
+export interface LlmRule {
+  // Where the rule was declared, e.g. "nginclaude-proxy.conf:12"; the model
+  // names the rule it applied by this ID
+  id: string;
+  text: string;
+  // IDs of the routes the rule allows, see RouteConfig.id
+  targets: string[];
+  loc: SourceLocation;
+}
+
+// Function to read `llm_rule <text> <route>...` of one config level. Unlike
+// most settings, rules add up: a location gets its own rules on top of those
+// of its server block and the http context.
+export function buildLlmRules(directives: Directive[], inherited: LlmRule[]): LlmRule[] {
+  const rules = findDirectives(directives, 'llm_rule').map(directive => {
+    const [text, ...targets] = directive.args;
+    if (!text || targets.length === 0) {
+      throw new NginxConfigError(
+        'invalid number of arguments in "llm_rule" directive, it needs a rule and at least one route',
+        directive.loc.file, directive.loc.line, directive.loc.column
+      );
+    }
+    return { id: `${path.basename(directive.loc.file)}:${directive.loc.line}`, text, targets, loc: directive.loc };
+  });
+
+  return rules.length > 0 ? [...inherited, ...rules] : inherited;
+}
+
+// Function to check every rule only names routes of its server block
+export function checkRuleTargets(rules: LlmRule[], routeIds: string[]): void {
+  for (const rule of rules) {
+    const unknown = rule.targets.find(target => !routeIds.includes(target));
+    if (unknown !== undefined) {
+      throw new NginxConfigError(
+        `unknown route "${unknown}" in "llm_rule" directive`,
+        rule.loc.file, rule.loc.line, rule.loc.column
+      );
+    }
+  }
+}
+
+// Function to list rules for the routing prompt
+export function describeRules(rules: LlmRule[]): string {
+  return rules
+    .map(rule => `- Rule "${rule.id}": ${rule.text}. Allowed routes: ${rule.targets.map(target => `"${target}"`).join(', ')}`)
+    .join('\n');
+}
@@ -0,0 +1,61 @@
+import { RouteConfig } from './routes';
+
+// Function to reduce a request URL to the path nginx matches locations against:
+// no query string, percent-decoded, with repeated slashes merged
+export function normalizeUri(url: string): string {
+  const rawPath = url.split(/[?#]/)[0] || '/';
+  let decoded = rawPath;
+
+  try {
+    decoded = decodeURIComponent(rawPath);
+  } catch {
+    // Malformed escapes are matched as-is, like nginx does with invalid sequences
+  }
+
+  return decoded.replace(/\/{2,}/g, '/');
+}
+
+// Function to check a prefix location against a path. Unlike nginx, a prefix only
+// matches on a path segment boundary, so `location /api` does not claim `/apiary`.
+function matchesPrefix(prefix: string, uri: string): boolean {
+  if (!uri.startsWith(prefix)) {
+    return false;
+  }
+  return prefix.endsWith('/') || uri.length === prefix.length || uri[prefix.length] === '/';
+}
+
+// Function to pick the location for a request using nginx's precedence:
+// 1. an exact (`=`) match wins immediately
+// 2. otherwise the longest matching prefix is remembered; if it is `^~`, it wins
+// 3. otherwise regex locations (`~`, `~*`) are tried in file order, first match wins
+// 4. otherwise the remembered longest prefix is used
+export function matchRoute(routes: RouteConfig[], url: string): RouteConfig | null {
+  const uri = normalizeUri(url);
+
+  const exact = routes.find(route => route.modifier === '=' && route.path === uri);
+  if (exact) {
+    return exact;
+  }
+
+  let longest: RouteConfig | null = null;
+  for (const route of routes) {
+    if (route.modifier !== null && route.modifier !== '^~') {
+      continue;
+    }
+    if (matchesPrefix(route.path, uri) && (!longest || route.path.length > longest.path.length)) {
+      longest = route;
+    }
+  }
+
+  if (longest && longest.modifier === '^~') {
+    return longest;
+  }
+
+  for (const route of routes) {
+    if (route.regex && route.regex.test(uri)) {
+      return route;
+    }
+  }
+
+  return longest;
+}
@@ -0,0 +1,99 @@
+import { LanguageModelV1, LanguageModelV1CallOptions } from 'ai';
+
+export type MockReplyOrder = 'sequence' | 'random';
+
+// Interface for the script the local mock model follows
+export interface MockModelScript {
+  // Raw model outputs to return. `random` answers with a random route,
+  // `malformed` with broken JSON and `error` fails the call.
+  replies: string[];
+  order: MockReplyOrder;
+  // Simulated response time
+  latency: number;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockModelScript = {
+  replies: ['random'],
+  order: 'sequence',
+  latency: 0
+};
+
+// Function to list the route IDs the decision schema allows
+function schemaRouteIds(options: LanguageModelV1CallOptions): string[] {
+  if (options.mode.type !== 'object-json') {
+    return [];
+  }
+  const routeId = options.mode.schema?.properties?.routeId;
+  return typeof routeId === 'object' && Array.isArray(routeId.enum) ? routeId.enum.map(String) : [];
+}
+
+// Function to wait like a real model would, giving up when the call is aborted
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new Error('Mock model call aborted'));
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new Error('Mock model call aborted'));
+  });
+});
+
+// Function to create a language model that answers from a script instead of
+// calling a provider, so the LLM routing path runs offline
+export function createMockModel(
+  modelId: string,
+  script: MockModelScript,
+  random: () => number = Math.random
+): LanguageModelV1 {
+  let calls = 0;
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+
+    async doGenerate(options) {
+      const index = script.order === 'random'
+        ? Math.floor(random() * script.replies.length)
+        : calls % script.replies.length;
+      const reply = script.replies[index];
+      calls++;
+
+      if (script.latency > 0) {
+        await delay(script.latency, options.abortSignal);
+      }
+
+      let text = reply;
+      if (reply === 'error') {
+        throw new Error('Mock model error');
+      } else if (reply === 'malformed') {
+        text = '{"routeId": "';
+      } else if (reply === 'random') {
+        const ids = schemaRouteIds(options);
+        text = JSON.stringify({
+          routeId: ids[Math.floor(random() * ids.length)],
+          confidence: Math.round(random() * 100) / 100,
+          reasoning: 'Picked at random by the mock model'
+        });
+      }
+
+      return {
+        text,
+        finishReason: 'stop',
+        // Roughly four characters per token, enough to exercise token accounting
+        usage: {
+          promptTokens: Math.ceil(JSON.stringify(options.prompt).length / 4),
+          completionTokens: Math.ceil(text.length / 4)
+        },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    },
+
+    async doStream() {
+      throw new Error('The mock model does not support streaming');
+    }
+  };
+}
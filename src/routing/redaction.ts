@@ -0,0 +1,292 @@
+import { IncomingHttpHeaders } from 'http';
+import { Directive, findDirective, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseSize } from '../config/values';
+import { RequestBody } from '../proxy/body';
+import { RoutingRequest } from './llm-router';
+
+// How much of a request the routing prompt may see: the request line only,
+// the request line and headers, or everything including the body
+export type LlmContextMode = 'off' | 'headers' | 'full';
+
+// Interface for the llm_context settings of a location
+export interface LlmContextConfig {
+  mode: LlmContextMode;
+  // llm_context_headers: when set, the only headers the prompt may contain
+  allowHeaders: string[] | null;
+  // Headers never sent, on top of the built-in denylist
+  hideHeaders: string[];
+  // llm_context_args: query arguments whose values the prompt may contain; the
+  // values of all others are masked
+  allowArgs: string[];
+  // llm_context_mask: JSON paths into the body whose values are masked
+  bodyMasks: string[];
+  // Longest body excerpt sent, in bytes; also how much of the body is read
+  // before routing, the rest streams straight to the upstream
+  bodyLimit: number;
+}
+
+// Headers that carry credentials and are never sent to the model
+export const DENIED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+export const DEFAULT_LLM_CONTEXT: LlmContextConfig = {
+  mode: 'headers',
+  allowHeaders: null,
+  hideHeaders: [],
+  allowArgs: [],
+  bodyMasks: [],
+  bodyLimit: 2048
+};
+
+const MASK = '[REDACTED]';
+
+// Content types shown to the model as text; anything else is only described
+const TEXT_CONTENT_TYPE = /^(text\/|application\/([\w.-]+\+)?(json|xml)$|application\/(x-www-form-urlencoded|graphql|javascript)$)/;
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to split a JSON path like `$.user.cards[*].number` or `$..password`
+// into segments. `**` stands for any depth, `*` for any key or index.
+export function parseJsonPath(path: string): string[] | null {
+  if (!path.startsWith('$')) {
+    return null;
+  }
+
+  const segments: string[] = [];
+  const pattern = /\.\.|\.([\w-]+|\*)|\[(\d+|\*)\]|\[(['"])(.*?)\3\]/y;
+  pattern.lastIndex = 1;
+
+  while (pattern.lastIndex < path.length) {
+    const match = pattern.exec(path);
+    if (!match) {
+      return null;
+    }
+    if (match[0] === '..') {
+      segments.push('**');
+      // `$..name` is shorthand for `$..` followed by `.name`
+      pattern.lastIndex--;
+      continue;
+    }
+    segments.push(match[1] ?? match[2] ?? match[4]);
+  }
+
+  return segments.length > 0 && segments[segments.length - 1] !== '**' ? segments : null;
+}
+
+// Function to read `llm_context`, `llm_context_headers`, `llm_context_hide_header`,
+// `llm_context_args`, `llm_context_mask` and `llm_context_body_limit`, each
+// inherited separately
+export function buildLlmContextConfig(directives: Directive[], inherited: LlmContextConfig): LlmContextConfig {
+  const config = { ...inherited };
+
+  const mode = findDirective(directives, 'llm_context');
+  if (mode) {
+    const value = mode.args[0];
+    if (mode.args.length !== 1 || !['off', 'headers', 'full'].includes(value)) {
+      throw configError(mode, `invalid value "${value}" in "llm_context" directive, it must be "off", "headers" or "full"`);
+    }
+    config.mode = value as LlmContextMode;
+  }
+
+  const allow = findDirectives(directives, 'llm_context_headers');
+  if (allow.length > 0) {
+    config.allowHeaders = allow.flatMap(directive => {
+      if (directive.args.length === 0) {
+        throw configError(directive, 'invalid number of arguments in "llm_context_headers" directive');
+      }
+      return directive.args.map(name => name.toLowerCase());
+    });
+  }
+
+  const hide = findDirectives(directives, 'llm_context_hide_header');
+  if (hide.length > 0) {
+    config.hideHeaders = hide.map(directive => {
+      if (directive.args.length !== 1) {
+        throw configError(directive, 'invalid number of arguments in "llm_context_hide_header" directive');
+      }
+      return directive.args[0].toLowerCase();
+    });
+  }
+
+  const args = findDirectives(directives, 'llm_context_args');
+  if (args.length > 0) {
+    config.allowArgs = args.flatMap(directive => {
+      if (directive.args.length === 0) {
+        throw configError(directive, 'invalid number of arguments in "llm_context_args" directive');
+      }
+      return directive.args;
+    });
+  }
+
+  const masks = findDirectives(directives, 'llm_context_mask');
+  if (masks.length > 0) {
+    config.bodyMasks = masks.flatMap(directive => {
+      if (directive.args.length === 0) {
+        throw configError(directive, 'invalid number of arguments in "llm_context_mask" directive');
+      }
+      for (const path of directive.args) {
+        if (!parseJsonPath(path)) {
+          throw configError(directive, `invalid JSON path "${path}" in "llm_context_mask" directive`);
+        }
+      }
+      return directive.args;
+    });
+  }
+
+  const limit = findDirective(directives, 'llm_context_body_limit');
+  if (limit) {
+    const size = limit.args.length === 1 ? parseSize(limit.args[0]) : null;
+    if (size === null) {
+      throw configError(limit, 'invalid value in "llm_context_body_limit" directive');
+    }
+    config.bodyLimit = size;
+  }
+
+  return config;
+}
+
+// Function to keep only the headers the prompt may contain
+export function redactHeaders(headers: IncomingHttpHeaders, config: LlmContextConfig): IncomingHttpHeaders {
+  const redacted: IncomingHttpHeaders = {};
+
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (DENIED_HEADERS.includes(key) || config.hideHeaders.includes(key)) {
+      continue;
+    }
+    if (config.allowHeaders && !config.allowHeaders.includes(key)) {
+      continue;
+    }
+    redacted[key] = value;
+  }
+
+  return redacted;
+}
+
+// Function to mask every value a parsed JSON path points at, in place
+function maskPath(value: unknown, segments: string[]): void {
+  if (segments.length === 0 || value === null || typeof value !== 'object') {
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  const container = value as Record<string, unknown>;
+
+  if (segment === '**') {
+    maskPath(value, rest);
+    Object.values(container).forEach(child => maskPath(child, segments));
+    return;
+  }
+
+  const keys = segment === '*' ? Object.keys(container) : [segment];
+  for (const key of keys) {
+    if (!Object.prototype.hasOwnProperty.call(container, key)) {
+      continue;
+    }
+    if (rest.length === 0) {
+      container[key] = MASK;
+    } else {
+      maskPath(container[key], rest);
+    }
+  }
+}
+
+// Function to mask the fields of a form body the same way as a JSON body,
+// treating each field as a top-level key
+function maskForm(text: string, masks: string[][]): string {
+  const params = new URLSearchParams(text);
+  const fields = Object.fromEntries([...params.keys()].map(key => [key, '']));
+  masks.forEach(segments => maskPath(fields, segments));
+
+  return [...params.entries()]
+    .map(([key, value]) => [key, fields[key] === MASK ? MASK : value])
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+// Function to turn a body preview into the excerpt the prompt may contain.
+// Only text bodies are shown. With llm_context_mask set, only JSON and form
+// bodies that fit in the preview are shown, since nothing else can be masked.
+export function redactBody(
+  body: RequestBody,
+  headers: IncomingHttpHeaders,
+  config: LlmContextConfig
+): string | undefined {
+  if (body.preview.length === 0 && !body.truncated) {
+    return undefined;
+  }
+
+  const contentType = (headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const contentLength = headers['content-length'];
+  const size = contentLength
+    ? `${contentLength} bytes`
+    : `${body.truncated ? 'more than ' : ''}${body.preview.length} bytes`;
+  const describe = (reason: string) => `(${contentType || 'untyped'} body of ${size}, ${reason})`;
+
+  if (!TEXT_CONTENT_TYPE.test(contentType)) {
+    return describe('not shown');
+  }
+
+  let text = body.preview.toString('utf8');
+
+  if (config.bodyMasks.length > 0) {
+    const masks = config.bodyMasks.map(path => parseJsonPath(path) as string[]);
+    const json = /json/.test(contentType);
+    if (body.truncated || (!json && contentType !== 'application/x-www-form-urlencoded')) {
+      return describe('not shown because it cannot be masked');
+    }
+
+    if (json) {
+      try {
+        const parsed = JSON.parse(text);
+        masks.forEach(segments => maskPath(parsed, segments));
+        text = JSON.stringify(parsed);
+      } catch {
+        return describe('not shown because it is not valid JSON');
+      }
+    } else {
+      text = maskForm(text, masks);
+    }
+  }
+
+  if (!body.truncated && Buffer.byteLength(text) <= config.bodyLimit) {
+    return text;
+  }
+  const excerpt = Buffer.from(text).subarray(0, config.bodyLimit).toString();
+  return `${excerpt}... (truncated, ${size} in total)`;
+}
+
+// Function to mask the values of the query arguments llm_context_args doesn't
+// allow, since tokens and API keys often travel in the URL
+export function redactUrl(url: string, config: LlmContextConfig): string {
+  const start = url.indexOf('?');
+  if (start === -1 || start === url.length - 1) {
+    return url;
+  }
+
+  const query = [...new URLSearchParams(url.slice(start + 1)).entries()]
+    .map(([key, value]) => [key, config.allowArgs.includes(key) ? value : MASK])
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return `${url.slice(0, start)}?${query}`;
+}
+
+// Function to build what the routing engine sees of a request, leaving out
+// everything llm_context doesn't allow
+export function buildRoutingRequest(
+  method: string,
+  url: string,
+  headers: IncomingHttpHeaders,
+  body: RequestBody,
+  config: LlmContextConfig
+): RoutingRequest {
+  const request: RoutingRequest = { method, url: redactUrl(url, config) };
+  if (config.mode === 'headers' || config.mode === 'full') {
+    request.headers = redactHeaders(headers, config);
+  }
+  if (config.mode === 'full') {
+    request.body = redactBody(body, headers, config);
+  }
+  return request;
+}
@@ -0,0 +1,110 @@
+import { RouteConfig, formatRoute } from './routes';
+import { VirtualServer, formatListen, formatServer, formatServerNames } from './virtual-hosts';
+
+// Interface for a route that exists in both versions of the config but differs
+export interface ChangedRoute {
+  server: string;
+  before: RouteConfig;
+  after: RouteConfig;
+  // Names of the RouteConfig fields that differ, e.g. ["target", "headers"]
+  fields: string[];
+}
+
+// Interface for a server block whose listen addresses changed
+export interface ChangedListen {
+  server: string;
+  before: string;
+  after: string;
+}
+
+// Interface for the difference between two versions of the config
+export interface RouteDiff {
+  added: { server: string; route: RouteConfig }[];
+  removed: { server: string; route: RouteConfig }[];
+  changed: ChangedRoute[];
+  listen: ChangedListen[];
+}
+
+// Fields that don't change how a route behaves: where it was declared (and
+// llm_rule IDs, which say the same), the compiled form of its path and the
+// balancer's running state
+const IGNORED_FIELDS = new Set(['loc', 'id', 'regex', 'currentWeight', 'activeConnections']);
+
+// Function to serialize a route field for comparison
+const signature = (value: unknown): string =>
+  JSON.stringify(value, (key, field) => (IGNORED_FIELDS.has(key) ? undefined : field));
+
+// Function to name every server block. A block is identified by its
+// server_name list, or by names and listen addresses when several blocks share
+// the names, so a block that moved within the file or gained a port is still
+// the same server.
+function nameServers(servers: VirtualServer[]): Map<string, VirtualServer> {
+  const names = servers.map(formatServerNames);
+  return new Map(servers.map((server, index) => [
+    names.indexOf(names[index]) === names.lastIndexOf(names[index]) ? names[index] : formatServer(server),
+    server
+  ]));
+}
+
+// Function to index the routes of every server block by server and route ID
+function indexRoutes(servers: Map<string, VirtualServer>): Map<string, { server: string; route: RouteConfig }> {
+  const index = new Map<string, { server: string; route: RouteConfig }>();
+  for (const [name, server] of servers) {
+    for (const route of server.routes) {
+      index.set(`${name}\n${route.id}`, { server: name, route });
+    }
+  }
+  return index;
+}
+
+// Function to compare the routes of two versions of the config
+export function diffRoutes(before: VirtualServer[], after: VirtualServer[]): RouteDiff {
+  const oldServers = nameServers(before);
+  const newServers = nameServers(after);
+  const oldRoutes = indexRoutes(oldServers);
+  const newRoutes = indexRoutes(newServers);
+  const diff: RouteDiff = { added: [], removed: [], changed: [], listen: [] };
+
+  for (const [name, server] of newServers) {
+    const old = oldServers.get(name);
+    if (old && formatListen(old) !== formatListen(server)) {
+      diff.listen.push({ server: name, before: formatListen(old), after: formatListen(server) });
+    }
+  }
+
+  for (const [key, entry] of newRoutes) {
+    const old = oldRoutes.get(key);
+    if (!old) {
+      diff.added.push(entry);
+      continue;
+    }
+
+    const fields = Object.keys({ ...old.route, ...entry.route })
+      .filter(field => !IGNORED_FIELDS.has(field))
+      .filter(field => signature(old.route[field as keyof RouteConfig]) !== signature(entry.route[field as keyof RouteConfig]));
+    if (fields.length > 0) {
+      diff.changed.push({ server: entry.server, before: old.route, after: entry.route, fields });
+    }
+  }
+
+  for (const [key, entry] of oldRoutes) {
+    if (!newRoutes.has(key)) {
+      diff.removed.push(entry);
+    }
+  }
+
+  return diff;
+}
+
+// Function to describe a diff one route per line, in the style of a unified diff
+export function formatRouteDiff(diff: RouteDiff): string[] {
+  return [
+    ...diff.listen.map(({ server, before, after }) => `~ server ${server}: listen ${after} (was ${before})`),
+    ...diff.added.map(({ server, route }) => `+ server ${server}: ${formatRoute(route)}`),
+    ...diff.removed.map(({ server, route }) => `- server ${server}: ${formatRoute(route)}`),
+    ...diff.changed.map(({ server, before, after, fields }) => {
+      const was = formatRoute(before) !== formatRoute(after) ? `, was ${formatRoute(before)}` : '';
+      return `~ server ${server}: ${formatRoute(after)} (${fields.join(', ')} changed${was})`;
+    })
+  ];
+}
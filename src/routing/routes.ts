@@ -0,0 +1,314 @@
+import {
+  Directive,
+  LocationBlock,
+  LocationModifier,
+  ServerBlock,
+  SourceLocation,
+  findDirective
+} from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { HeaderConfig, EMPTY_HEADER_CONFIG, buildHeaderConfig } from '../proxy/headers';
+import { DEFAULT_PROXY_HTTP_VERSION, ProxyHttpVersion, buildProxyHttpVersion } from '../proxy/upgrade';
+import { UpstreamMember, UpstreamPool, formatPoolMembers } from '../upstream/upstreams';
+import { selectMember } from '../upstream/balancer';
+import {
+  DEFAULT_FAIL_TIMEOUT,
+  DEFAULT_HEALTH_CHECK,
+  DEFAULT_MAX_FAILS,
+  HealthCheckConfig,
+  HealthTarget,
+  buildHealthCheckConfig
+} from '../upstream/health';
+import { DEFAULT_LLM_CACHE, LlmCacheConfig, buildLlmCacheConfig } from './decision-cache';
+import { DEFAULT_LLM_BUDGET, LlmBudgetConfig, buildLlmBudgetConfig } from './latency-budget';
+import { DEFAULT_LLM_CONTEXT, LlmContextConfig, buildLlmContextConfig } from './redaction';
+import { buildLlmShadow } from './shadow';
+import { LlmRule, buildLlmRules, checkRuleTargets } from './llm-rules';
+import { DEFAULT_RATE_LIMIT, RateLimitConfig, buildRateLimitConfig } from '../proxy/rate-limit';
+import { DEFAULT_PROXY_CACHE, ProxyCacheConfig, buildProxyCacheConfig } from '../proxy/response-cache';
+import { DEFAULT_NEXT_UPSTREAM, NextUpstreamConfig, buildNextUpstreamConfig } from '../proxy/next-upstream';
+
+export type DisagreementPolicy = 'reject' | 'log';
+
+// Settings declared at http, server or location level that nested levels
+// inherit unless they declare their own
+export interface LocationSettings {
+  // proxy_set_header, proxy_hide_header and add_header in effect for the location
+  headers: HeaderConfig;
+  // proxy_http_version: upgrades (WebSockets) need 1.1
+  proxyHttpVersion: ProxyHttpVersion;
+  // health_check for a plain proxy_pass backend (pools carry their own)
+  healthCheck: HealthCheckConfig;
+  // llm_disagreement: what to do when Claude picks a different location than the config
+  llmDisagreement: DisagreementPolicy;
+  // llm_cache, llm_cache_key and llm_cache_methods
+  llmCache: LlmCacheConfig;
+  // llm_timeout and llm_race
+  llmBudget: LlmBudgetConfig;
+  // llm_context and the llm_context_* directives: what the routing prompt may contain
+  llmContext: LlmContextConfig;
+  // llm_shadow: serve every request from the config and only record the engine's pick
+  llmShadow: boolean;
+  // llm_rule: routing intent in plain words, added to the routing prompt
+  llmRules: LlmRule[];
+  // limit_req, limit_conn and llm_limit_req
+  rateLimit: RateLimitConfig;
+  // proxy_cache and the proxy_cache_* directives: upstream responses served
+  // without asking the engine or the backend
+  proxyCache: ProxyCacheConfig;
+  // proxy_next_upstream and friends, the backend timeouts and
+  // client_body_buffer_size: when a failed request goes to another backend
+  nextUpstream: NextUpstreamConfig;
+}
+
+export const DEFAULT_LOCATION_SETTINGS: LocationSettings = {
+  headers: EMPTY_HEADER_CONFIG,
+  proxyHttpVersion: DEFAULT_PROXY_HTTP_VERSION,
+  healthCheck: DEFAULT_HEALTH_CHECK,
+  llmDisagreement: 'log',
+  llmCache: DEFAULT_LLM_CACHE,
+  llmBudget: DEFAULT_LLM_BUDGET,
+  llmContext: DEFAULT_LLM_CONTEXT,
+  llmShadow: false,
+  llmRules: [],
+  rateLimit: DEFAULT_RATE_LIMIT,
+  proxyCache: DEFAULT_PROXY_CACHE,
+  nextUpstream: DEFAULT_NEXT_UPSTREAM
+};
+
+// Function to read `llm_disagreement reject | log`
+function buildDisagreementPolicy(directives: Directive[], inherited: DisagreementPolicy): DisagreementPolicy {
+  const directive = findDirective(directives, 'llm_disagreement');
+  if (!directive) {
+    return inherited;
+  }
+
+  const policy = singleArg(directive);
+  if (policy !== 'reject' && policy !== 'log') {
+    throw new NginxConfigError(
+      `invalid value "${policy}" in "llm_disagreement" directive, it must be "reject" or "log"`,
+      directive.loc.file, directive.loc.line, directive.loc.column
+    );
+  }
+  return policy;
+}
+
+// Function to read the inheritable settings of one config level
+export function buildLocationSettings(directives: Directive[], inherited: LocationSettings): LocationSettings {
+  return {
+    headers: buildHeaderConfig(directives, inherited.headers),
+    proxyHttpVersion: buildProxyHttpVersion(directives, inherited.proxyHttpVersion),
+    healthCheck: buildHealthCheckConfig(directives, inherited.healthCheck),
+    llmDisagreement: buildDisagreementPolicy(directives, inherited.llmDisagreement),
+    llmCache: buildLlmCacheConfig(directives, inherited.llmCache),
+    llmBudget: buildLlmBudgetConfig(directives, inherited.llmBudget),
+    llmContext: buildLlmContextConfig(directives, inherited.llmContext),
+    llmShadow: buildLlmShadow(directives, inherited.llmShadow),
+    llmRules: buildLlmRules(directives, inherited.llmRules),
+    rateLimit: buildRateLimitConfig(directives, inherited.rateLimit),
+    proxyCache: buildProxyCacheConfig(directives, inherited.proxyCache),
+    nextUpstream: buildNextUpstreamConfig(directives, inherited.nextUpstream)
+  };
+}
+
+// Interface for route configuration
+export interface RouteConfig extends LocationSettings {
+  // Unique within its server block, e.g. "/api" or "~* \.(png|jpg)$"; offered to
+  // Claude as the list of routes to choose from
+  id: string;
+  path: string;
+  modifier: LocationModifier | null;
+  // Compiled pattern for `~` and `~*` locations
+  regex?: RegExp;
+  // proxy_pass URL as written in the config
+  target: string;
+  // Pool named by the proxy_pass host, when it refers to an upstream block
+  upstream?: UpstreamPool;
+  // Where the location block was declared, for error messages and debugging
+  loc: SourceLocation;
+}
+
+// Function to read the single argument of a directive, failing with its position
+export function singleArg(directive: Directive): string {
+  if (directive.args.length !== 1) {
+    throw new NginxConfigError(
+      `invalid number of arguments in "${directive.name}" directive`,
+      directive.loc.file, directive.loc.line, directive.loc.column
+    );
+  }
+  return directive.args[0];
+}
+
+// Function to compile the pattern of a regex location, reporting bad patterns at their line
+function compileLocationRegex(location: LocationBlock): RegExp | undefined {
+  if (location.modifier !== '~' && location.modifier !== '~*') {
+    return undefined;
+  }
+
+  try {
+    return new RegExp(location.path, location.modifier === '~*' ? 'i' : '');
+  } catch (error) {
+    throw new NginxConfigError(
+      `invalid regular expression "${location.path}": ${(error as Error).message}`,
+      location.loc.file, location.loc.line, location.loc.column
+    );
+  }
+}
+
+// Function to collect routes from a location and the locations nested in it
+function collectRoutes(
+  location: LocationBlock,
+  inherited: LocationSettings,
+  upstreams: Map<string, UpstreamPool>,
+  routes: RouteConfig[]
+): void {
+  const settings = buildLocationSettings(location.directives, inherited);
+  const proxyPass = findDirective(location.directives, 'proxy_pass');
+
+  if (proxyPass) {
+    const target = singleArg(proxyPass);
+
+    let proxyHost: string;
+    try {
+      if (!/^https?:\/\//.test(target)) {
+        throw new Error('unsupported scheme');
+      }
+      proxyHost = new URL(target).host;
+    } catch {
+      throw new NginxConfigError(
+        `invalid URL prefix in "${target}"`,
+        proxyPass.loc.file, proxyPass.loc.line, proxyPass.loc.column
+      );
+    }
+
+    routes.push({
+      id: location.modifier ? `${location.modifier} ${location.path}` : location.path,
+      path: location.path,
+      modifier: location.modifier,
+      regex: compileLocationRegex(location),
+      target,
+      upstream: upstreams.get(proxyHost),
+      ...settings,
+      loc: location.loc
+    });
+  }
+
+  location.locations.forEach(nested => collectRoutes(nested, settings, upstreams, routes));
+}
+
+// Function to build the route table of one server block, in file order. Regex
+// locations are matched in the order they were declared, see matchRoute in
+// location-matcher.ts
+export function buildServerRoutes(
+  server: ServerBlock,
+  httpSettings: LocationSettings,
+  upstreams: Map<string, UpstreamPool>
+): RouteConfig[] {
+  const routes: RouteConfig[] = [];
+  const serverSettings = buildLocationSettings(server.directives, httpSettings);
+
+  server.locations.forEach(location => collectRoutes(location, serverSettings, upstreams, routes));
+
+  // nginx rejects duplicate locations, but the same path may appear nested twice
+  const seen = new Map<string, number>();
+  for (const route of routes) {
+    const count = (seen.get(route.id) || 0) + 1;
+    seen.set(route.id, count);
+    if (count > 1) {
+      route.id = `${route.id} #${count}`;
+    }
+  }
+
+  // Rules may only send requests to this server block's routes
+  const routeIds = routes.map(route => route.id);
+  routes.forEach(route => checkRuleTargets(route.llmRules, routeIds));
+
+  return routes;
+}
+
+// Function to format a route for logs and the status endpoint, e.g. "= /health => http://localhost:8001"
+export function formatRoute(route: RouteConfig): string {
+  const modifier = route.modifier ? `${route.modifier} ` : '';
+  const pool = route.upstream ? ` [${formatPoolMembers(route.upstream)}]` : '';
+  return `${modifier}${route.path} => ${route.target}${pool}`;
+}
+
+// Function to describe a route's matching rule in plain words (used in the LLM prompt)
+export function describeRoute(route: RouteConfig): string {
+  switch (route.modifier) {
+  case '=':
+    return `If the URL path is exactly "${route.path}"`;
+  case '^~':
+    return `If the URL path starts with "${route.path}" (no regex locations are checked after this one)`;
+  case '~':
+    return `If the URL path matches the regular expression /${route.path}/`;
+  case '~*':
+    return `If the URL path matches the case-insensitive regular expression /${route.path}/i`;
+  default:
+    return `If the URL path starts with "${route.path}"`;
+  }
+}
+
+// Function to get the proxy_pass URL with its host replaced by a pool member
+export function memberTarget(route: RouteConfig, member: UpstreamMember): string {
+  return route.target.replace(/^(https?:\/\/)[^/]+/, `$1${member.address}`);
+}
+
+// Interface for the concrete backend chosen for one request
+export interface ResolvedTarget {
+  // Value for the proxy's `target` option
+  target: string;
+  // Pool member the request is sent to, for upstream routes
+  member?: UpstreamMember;
+}
+
+// Function to get the origin a pool member is reached at through a route
+export function memberOrigin(route: RouteConfig, member: UpstreamMember): string {
+  return new URL(memberTarget(route, member)).origin;
+}
+
+// Function to pick the backend for a request, balancing across the pool for
+// upstream routes and skipping backends `isUp` reports as down. Returns null
+// when no backend is available.
+export function resolveTarget(
+  route: RouteConfig,
+  clientAddress: string,
+  isUp: (origin: string) => boolean = () => true
+): ResolvedTarget | null {
+  if (!route.upstream) {
+    return isUp(new URL(route.target).origin) ? { target: route.target } : null;
+  }
+
+  const member = selectMember(route.upstream, clientAddress, candidate => isUp(memberOrigin(route, candidate)));
+  return member ? { target: memberTarget(route, member), member } : null;
+}
+
+// Function to list the backends to health check, with the check settings of
+// the pool or location that first names each one
+export function collectHealthTargets(routes: RouteConfig[]): HealthTarget[] {
+  const targets = new Map<string, HealthTarget>();
+
+  for (const route of routes) {
+    if (route.upstream) {
+      for (const member of route.upstream.members) {
+        const origin = memberOrigin(route, member);
+        if (!targets.has(origin)) {
+          const { maxFails, failTimeout } = member;
+          targets.set(origin, { origin, check: route.upstream.healthCheck, maxFails, failTimeout });
+        }
+      }
+    } else {
+      const origin = new URL(route.target).origin;
+      if (!targets.has(origin)) {
+        targets.set(origin, {
+          origin,
+          check: route.healthCheck,
+          maxFails: DEFAULT_MAX_FAILS,
+          failTimeout: DEFAULT_FAIL_TIMEOUT
+        });
+      }
+    }
+  }
+
+  return [...targets.values()];
+}
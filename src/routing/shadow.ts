@@ -0,0 +1,170 @@
+import { Directive, findDirective } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseFlag } from '../config/values';
+import { RoutingDecision } from './llm-router';
+import { RouteConfig } from './routes';
+import { validateDecision } from './validation';
+
+// What the engine made of a request routed in shadow mode. `capped` requests
+// came in while a spending cap was reached, so the model wasn't asked.
+export type ShadowOutcome = 'agreed' | 'disagreed' | 'timeout' | 'error' | 'capped';
+
+// Interface for one request routed in shadow mode
+export interface ShadowRecord {
+  at: string;
+  method: string;
+  url: string;
+  server: string;
+  // ID of the location the config matched, which served the request
+  location: string;
+  outcome: ShadowOutcome;
+  // How long the engine took to answer, give up or fail
+  latencyMs: number;
+  // The engine's pick, when it answered
+  routeId?: string;
+  path?: string;
+  // llm_rule the pick follows
+  rule?: string;
+  confidence?: number;
+  reasoning?: string;
+  // How the pick differs from the config's, or why there is none
+  detail?: string;
+}
+
+// Interface for the shadow statistics of one location
+export interface ShadowLocationReport {
+  server: string;
+  location: string;
+  requests: number;
+  agreed: number;
+  disagreed: number;
+  timeouts: number;
+  errors: number;
+  capped: number;
+  // Share of the engine's answers that matched the config; timeouts, errors
+  // and capped requests are counted separately
+  agreementRate: number;
+  // Over the requests the engine was asked about
+  averageLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+// Interface for the /proxy-status/shadow report
+export interface ShadowReport {
+  locations: ShadowLocationReport[];
+  // Latest records, newest first
+  recent: ShadowRecord[];
+}
+
+// Interface for the shadow mode record keeper
+export interface ShadowLog {
+  record(entry: ShadowRecord): void;
+  report(): ShadowReport;
+}
+
+export const DEFAULT_SHADOW_RECENT = 100;
+
+// Function to read `llm_shadow on | off`
+export function buildLlmShadow(directives: Directive[], inherited: boolean): boolean {
+  const directive = findDirective(directives, 'llm_shadow');
+  if (!directive) {
+    return inherited;
+  }
+
+  const enabled = directive.args.length === 1 ? parseFlag(directive.args[0]) : null;
+  if (enabled === null) {
+    throw new NginxConfigError(
+      'invalid value in "llm_shadow" directive, it must be "on" or "off"',
+      directive.loc.file, directive.loc.line, directive.loc.column
+    );
+  }
+  return enabled;
+}
+
+// Function to compare the engine's pick with the location the config served a
+// request from. Picking the same location counts as agreement unless the
+// engine also rewrote the path.
+export function compareShadowDecision(
+  decision: RoutingDecision,
+  routes: RouteConfig[],
+  expected: RouteConfig,
+  url: string
+): { outcome: 'agreed' | 'disagreed'; detail?: string } {
+  const validation = validateDecision(decision, routes, expected);
+
+  if (validation.route !== expected || !validation.accepted) {
+    return { outcome: 'disagreed', detail: validation.reason };
+  }
+  if (decision.path !== undefined && decision.path !== url) {
+    return { outcome: 'disagreed', detail: `rewrote the path to ${decision.path}` };
+  }
+  return { outcome: 'agreed' };
+}
+
+// Function to create the shadow mode record keeper. Counts are kept per
+// location for as long as the process runs; only the latest records are kept
+// in full.
+export function createShadowLog(maxRecent: number = DEFAULT_SHADOW_RECENT): ShadowLog {
+  const locations = new Map<string, ShadowLocationReport & { totalLatencyMs: number }>();
+  const recent: ShadowRecord[] = [];
+
+  return {
+    record(entry) {
+      const key = `${entry.server}\n${entry.location}`;
+      const stats = locations.get(key) || {
+        server: entry.server,
+        location: entry.location,
+        requests: 0,
+        agreed: 0,
+        disagreed: 0,
+        timeouts: 0,
+        errors: 0,
+        capped: 0,
+        agreementRate: 0,
+        averageLatencyMs: 0,
+        maxLatencyMs: 0,
+        totalLatencyMs: 0
+      };
+      locations.set(key, stats);
+
+      stats.requests++;
+      switch (entry.outcome) {
+      case 'agreed':
+        stats.agreed++;
+        break;
+      case 'disagreed':
+        stats.disagreed++;
+        break;
+      case 'timeout':
+        stats.timeouts++;
+        break;
+      case 'error':
+        stats.errors++;
+        break;
+      case 'capped':
+        stats.capped++;
+        break;
+      }
+      stats.totalLatencyMs += entry.latencyMs;
+      stats.maxLatencyMs = Math.max(stats.maxLatencyMs, entry.latencyMs);
+
+      recent.unshift(entry);
+      recent.splice(maxRecent);
+    },
+
+    report() {
+      return {
+        locations: [...locations.values()].map(({ totalLatencyMs, ...stats }) => {
+          const answered = stats.agreed + stats.disagreed;
+          const asked = stats.requests - stats.capped;
+          return {
+            ...stats,
+            agreementRate: answered > 0 ? stats.agreed / answered : 0,
+            averageLatencyMs: asked > 0 ? Math.round(totalLatencyMs / asked) : 0
+          };
+        }),
+        recent: [...recent]
+      };
+    }
+  };
+}
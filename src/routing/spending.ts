@@ -0,0 +1,281 @@
+import { Directive, findDirective, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseParam } from '../config/values';
+import { TokenUsage } from './engine';
+
+// Interface for what a model charges, in US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Interface for the `llm_price` and `llm_spend_cap` settings
+export interface SpendingConfig {
+  // Prices by model ID
+  prices: Map<string, ModelPrice>;
+  // Caps in US dollars; undefined means no cap
+  daily?: number;
+  monthly?: number;
+  // Share of a cap at which to warn, e.g. 0.8
+  warnAt: number;
+}
+
+// Where spending stands against the caps
+export type SpendingState = 'ok' | 'warning' | 'exceeded';
+
+// Interface for the tokens one model call used, and what it was for
+export interface UsageRecord extends TokenUsage {
+  model: string;
+  server: string;
+  location: string;
+}
+
+// Interface for token and cost totals
+export interface SpendingTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated, in US dollars
+  cost: number;
+}
+
+// Interface for the totals of one location on one day
+export interface LocationSpending extends SpendingTotals {
+  server: string;
+  location: string;
+}
+
+// Interface for the totals of one day, UTC
+export interface DaySpending extends SpendingTotals {
+  date: string;
+  locations: LocationSpending[];
+}
+
+// Interface for the `spending` section of /proxy-status
+export interface SpendingReport {
+  state: SpendingState;
+  caps: { daily: number | null; monthly: number | null; warnAt: number };
+  today: DaySpending;
+  month: SpendingTotals & { month: string };
+  // Recent days, newest first
+  days: DaySpending[];
+  // Models called without an `llm_price`, counted as free
+  unpricedModels: string[];
+}
+
+// Interface for the token and cost accounting
+export interface SpendingTracker {
+  // Records a model call and returns its estimated cost
+  record(usage: UsageRecord): number;
+  state(): SpendingState;
+  report(): SpendingReport;
+}
+
+// List prices of the Claude models, per million tokens
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'claude-opus-4-20250514': { input: 15, output: 75 }
+};
+
+export const DEFAULT_SPEND_WARN_AT = 0.8;
+
+// Days of totals to keep, enough for the current month
+const KEPT_DAYS = 31;
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to parse an amount of US dollars, e.g. "5" or "12.50"
+const parseAmount = (value: string): number | null => (/^\d+(\.\d+)?$/.test(value) ? Number(value) : null);
+
+// Function to read `llm_price <model> <input> <output>` and
+// `llm_spend_cap [daily=<usd>] [monthly=<usd>] [warn=<percent>%]` from the
+// http context
+export function buildSpendingConfig(httpDirectives: Directive[]): SpendingConfig {
+  const config: SpendingConfig = {
+    prices: new Map(Object.entries(DEFAULT_MODEL_PRICES)),
+    warnAt: DEFAULT_SPEND_WARN_AT
+  };
+
+  for (const directive of findDirectives(httpDirectives, 'llm_price')) {
+    if (directive.args.length !== 3) {
+      throw configError(directive, 'invalid number of arguments in "llm_price" directive');
+    }
+    const [model, input, output] = directive.args;
+    const price = { input: parseAmount(input), output: parseAmount(output) };
+    if (price.input === null || price.output === null) {
+      throw configError(directive, 'invalid price in "llm_price" directive, it must be dollars per million tokens');
+    }
+    config.prices.set(model, price as ModelPrice);
+  }
+
+  const cap = findDirective(httpDirectives, 'llm_spend_cap');
+  if (!cap) {
+    return config;
+  }
+  if (cap.args.length === 0) {
+    throw configError(cap, 'invalid number of arguments in "llm_spend_cap" directive');
+  }
+  for (const arg of cap.args) {
+    const param = parseParam(arg);
+    switch (param?.key) {
+    case 'daily':
+    case 'monthly': {
+      const amount = parseAmount(param.value);
+      if (!amount) {
+        throw configError(cap, `invalid "${param.key}" amount "${param.value}" in "llm_spend_cap" directive`);
+      }
+      config[param.key] = amount;
+      break;
+    }
+    case 'warn': {
+      const percent = param.value.match(/^(\d+)%$/);
+      if (!percent || Number(percent[1]) < 1 || Number(percent[1]) > 100) {
+        throw configError(cap, `invalid "warn" value "${param.value}" in "llm_spend_cap" directive`);
+      }
+      config.warnAt = Number(percent[1]) / 100;
+      break;
+    }
+    default:
+      throw configError(cap, `invalid parameter "${arg}" in "llm_spend_cap" directive`);
+    }
+  }
+  return config;
+}
+
+// Function to estimate the cost of a model call. Unpriced models cost nothing.
+export function estimateCost(price: ModelPrice | undefined, usage: TokenUsage): number {
+  if (!price) {
+    return 0;
+  }
+  return ((usage.promptTokens || 0) * price.input + (usage.completionTokens || 0) * price.output) / 1_000_000;
+}
+
+const emptyTotals = (): SpendingTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 });
+
+// Function to add a call to running totals
+function addUsage(totals: SpendingTotals, usage: TokenUsage, cost: number): void {
+  totals.calls++;
+  totals.promptTokens += usage.promptTokens || 0;
+  totals.completionTokens += usage.completionTokens || 0;
+  totals.cost += cost;
+}
+
+// Costs add up in floating point, so reports round them to a millionth of a dollar
+const roundCost = <T extends SpendingTotals>(totals: T): T => ({ ...totals, cost: Math.round(totals.cost * 1e6) / 1e6 });
+
+// Function to create the token and cost accounting. Totals are kept per UTC
+// day and location for as long as the process runs; the config is read on
+// every call, so prices and caps follow reloads.
+export function createSpendingTracker(
+  config: () => SpendingConfig,
+  now: () => Date = () => new Date()
+): SpendingTracker {
+  const days = new Map<string, SpendingTotals & { locations: Map<string, LocationSpending> }>();
+  const unpriced = new Set<string>();
+  // Warnings already given, e.g. "daily 2026-10-19 warning", so each is logged once
+  const warned = new Set<string>();
+
+  const today = () => now().toISOString().slice(0, 10);
+
+  const monthTotals = (month: string): SpendingTotals => {
+    const totals = emptyTotals();
+    for (const [date, day] of days) {
+      if (date.startsWith(month)) {
+        totals.calls += day.calls;
+        totals.promptTokens += day.promptTokens;
+        totals.completionTokens += day.completionTokens;
+        totals.cost += day.cost;
+      }
+    }
+    return totals;
+  };
+
+  // Where each cap stands, worst first
+  const capStates = (): { period: 'daily' | 'monthly'; key: string; state: SpendingState; spent: number; cap: number }[] => {
+    const { daily, monthly, warnAt } = config();
+    const date = today();
+    const periods = [
+      { period: 'daily' as const, key: date, cap: daily, spent: days.get(date)?.cost || 0 },
+      { period: 'monthly' as const, key: date.slice(0, 7), cap: monthly, spent: monthTotals(date.slice(0, 7)).cost }
+    ];
+    return periods
+      .filter((period): period is typeof period & { cap: number } => period.cap !== undefined)
+      .map(period => ({
+        ...period,
+        state: (period.spent >= period.cap ? 'exceeded' : period.spent >= period.cap * warnAt ? 'warning' : 'ok') as SpendingState
+      }))
+      .sort((a, b) => ['exceeded', 'warning', 'ok'].indexOf(a.state) - ['exceeded', 'warning', 'ok'].indexOf(b.state));
+  };
+
+  const state = (): SpendingState => capStates()[0]?.state || 'ok';
+
+  const dayReport = (date: string): DaySpending => {
+    const day = days.get(date);
+    return roundCost({
+      date,
+      ...(day ? { calls: day.calls, promptTokens: day.promptTokens, completionTokens: day.completionTokens, cost: day.cost } : emptyTotals()),
+      locations: day ? [...day.locations.values()].map(roundCost) : []
+    });
+  };
+
+  return {
+    record(usage) {
+      const price = config().prices.get(usage.model);
+      if (!price && !unpriced.has(usage.model)) {
+        unpriced.add(usage.model);
+        console.warn(`No llm_price for model ${usage.model}, its calls are counted as free`);
+      }
+      const cost = estimateCost(price, usage);
+
+      const date = today();
+      const day = days.get(date) || { ...emptyTotals(), locations: new Map<string, LocationSpending>() };
+      days.set(date, day);
+      const key = `${usage.server}\n${usage.location}`;
+      const location = day.locations.get(key) || { server: usage.server, location: usage.location, ...emptyTotals() };
+      day.locations.set(key, location);
+      addUsage(day, usage, cost);
+      addUsage(location, usage, cost);
+
+      // Days are recorded in order, so the oldest come first
+      for (const date of days.keys()) {
+        if (days.size <= KEPT_DAYS) {
+          break;
+        }
+        days.delete(date);
+      }
+
+      for (const cap of capStates()) {
+        const warning = `${cap.period} ${cap.key} ${cap.state}`;
+        if (cap.state === 'ok' || warned.has(warning)) {
+          continue;
+        }
+        warned.add(warning);
+        console.warn(cap.state === 'exceeded'
+          ? `LLM spending cap reached: $${cap.spent.toFixed(2)} of the ${cap.period} $${cap.cap} cap, routing by the config until it resets`
+          : `LLM spending at $${cap.spent.toFixed(2)} of the ${cap.period} $${cap.cap} cap`);
+      }
+      return cost;
+    },
+
+    state,
+
+    report() {
+      const { daily, monthly, warnAt } = config();
+      const date = today();
+      return {
+        state: state(),
+        caps: { daily: daily ?? null, monthly: monthly ?? null, warnAt },
+        today: dayReport(date),
+        month: roundCost({ month: date.slice(0, 7), ...monthTotals(date.slice(0, 7)) }),
+        days: [...days.keys()].reverse().map(dayReport),
+        unpricedModels: [...unpriced]
+      };
+    }
+  };
+}
@@ -0,0 +1,66 @@
+import { RoutingDecision } from './llm-router';
+import { RouteConfig, formatRoute } from './routes';
+
+// Interface for the outcome of checking an LLM routing decision
+export interface RoutingValidation {
+  accepted: boolean;
+  // Route the decision names, if it is in the route table at all
+  route: RouteConfig | null;
+  // Why the decision was rejected, or flagged but let through
+  reason?: string;
+}
+
+// Function to check a rewritten path can't be used to reach another host
+export const isSafePath = (path: string): boolean =>
+  path.startsWith('/') && !path.startsWith('//') && !/[\s\\]/.test(path);
+
+// Function to check an LLM routing decision against the route table. Decisions
+// naming unknown routes or unsafe paths are always rejected. Decisions that
+// follow an llm_rule of the matched location are accepted for the routes the
+// rule allows and rejected for any other. Other decisions for a different
+// location than the deterministic match are handled by that location's
+// llm_disagreement policy, and rejected if nothing matches.
+export function validateDecision(
+  decision: RoutingDecision,
+  routes: RouteConfig[],
+  expected: RouteConfig | null
+): RoutingValidation {
+  const route = routes.find(candidate => candidate.id === decision.routeId);
+
+  if (!route) {
+    return { accepted: false, route: null, reason: `route "${decision.routeId}" is not in the route table` };
+  }
+
+  if (decision.path !== undefined && !isSafePath(decision.path)) {
+    return { accepted: false, route, reason: `invalid rewritten path "${decision.path}"` };
+  }
+
+  if (decision.rule !== undefined) {
+    const rule = expected?.llmRules.find(candidate => candidate.id === decision.rule);
+    if (!rule) {
+      return { accepted: false, route, reason: `rule "${decision.rule}" does not apply to the request` };
+    }
+    if (!rule.targets.includes(route.id)) {
+      return { accepted: false, route, reason: `rule "${rule.id}" does not allow ${formatRoute(route)}` };
+    }
+    return { accepted: true, route };
+  }
+
+  if (route === expected) {
+    return { accepted: true, route };
+  }
+
+  if (!expected) {
+    return {
+      accepted: false,
+      route,
+      reason: `chose ${formatRoute(route)} but no location matches the request`
+    };
+  }
+
+  return {
+    accepted: expected.llmDisagreement === 'log',
+    route,
+    reason: `chose ${formatRoute(route)} but the config matches ${formatRoute(expected)}`
+  };
+}
@@ -0,0 +1,236 @@
+import { ConfigAST, Directive, SourceLocation, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { buildUpstreams } from '../upstream/upstreams';
+import { DEFAULT_LOCATION_SETTINGS, RouteConfig, buildLocationSettings, buildServerRoutes } from './routes';
+import { DEFAULT_ENGINE_CONFIG, EngineConfig, buildEngineConfig } from './engine';
+import { AccessLogTarget, buildAccessLogConfig, buildLogFormats } from '../proxy/access-log';
+import { RateLimitConfig, buildRateLimitConfig } from '../proxy/rate-limit';
+
+// Interface for a `listen` directive
+export interface ListenConfig {
+  // Bind address; undefined means all interfaces
+  host?: string;
+  port: number;
+  defaultServer: boolean;
+}
+
+// Interface for a `server { ... }` block, ready for request routing
+export interface VirtualServer {
+  listen: ListenConfig[];
+  serverNames: string[];
+  // Compiled `~regex` server names, in declaration order
+  nameRegexes: RegExp[];
+  routes: RouteConfig[];
+  // llm_engine, llm_provider, llm_model, llm_circuit_breaker and llm_mock_*
+  engine: EngineConfig;
+  // access_log destinations; empty when access logging is off
+  accessLog: AccessLogTarget[];
+  // Rate limits for requests no location matches
+  rateLimit: RateLimitConfig;
+  loc: SourceLocation;
+}
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+const parsePort = (directive: Directive, value: string): number => {
+  const port = Number(value);
+  if (!/^\d+$/.test(value) || port < 1 || port > 65535) {
+    throw configError(directive, `invalid port in "${directive.args[0]}" of the "listen" directive`);
+  }
+  return port;
+};
+
+// Function to parse `listen 8080`, `listen 127.0.0.1:8080`, `listen [::]:8080 default_server`
+function parseListen(directive: Directive): ListenConfig {
+  if (directive.args.length === 0) {
+    throw configError(directive, 'invalid number of arguments in "listen" directive');
+  }
+
+  const [address, ...params] = directive.args;
+  const defaultServer = params.includes('default_server') || params.includes('default');
+  const bracketed = address.match(/^\[([^\]]+)\](?::(\d+))?$/);
+
+  if (bracketed) {
+    return { host: bracketed[1], port: bracketed[2] ? parsePort(directive, bracketed[2]) : 80, defaultServer };
+  }
+  if (/^\d+$/.test(address)) {
+    return { port: parsePort(directive, address), defaultServer };
+  }
+
+  const separator = address.lastIndexOf(':');
+  if (separator === -1) {
+    return { host: address, port: 80, defaultServer };
+  }
+
+  const host = address.slice(0, separator);
+  return {
+    host: host === '*' ? undefined : host,
+    port: parsePort(directive, address.slice(separator + 1)),
+    defaultServer
+  };
+}
+
+// Function to compile a `~regex` server name, reporting bad patterns at their line
+function compileServerName(directive: Directive, name: string): RegExp {
+  try {
+    return new RegExp(name.slice(1), 'i');
+  } catch (error) {
+    throw configError(directive, `invalid regular expression "${name.slice(1)}": ${(error as Error).message}`);
+  }
+}
+
+// Function to build the virtual servers of a parsed config. Servers without a
+// `listen` directive listen on `defaultPort`.
+export function buildServers(ast: ConfigAST, defaultPort: number): VirtualServer[] {
+  const httpSettings = buildLocationSettings(ast.http.directives, DEFAULT_LOCATION_SETTINGS);
+  const upstreams = buildUpstreams(ast.http.directives, httpSettings.healthCheck);
+  const httpEngine = buildEngineConfig(ast.http.directives, DEFAULT_ENGINE_CONFIG);
+  const logFormats = buildLogFormats(ast.http.directives);
+  const httpAccessLog = buildAccessLogConfig(ast.http.directives, [], logFormats);
+  const defaultPorts = new Set<number>();
+
+  return ast.http.servers.map(server => {
+    const listenDirectives = findDirectives(server.directives, 'listen');
+    const listen = listenDirectives.length > 0
+      ? listenDirectives.map(parseListen)
+      : [{ port: defaultPort, defaultServer: false }];
+
+    listenDirectives.forEach((directive, index) => {
+      const { port, defaultServer } = listen[index];
+      if (!defaultServer) {
+        return;
+      }
+      if (defaultPorts.has(port)) {
+        throw configError(directive, `a duplicate default server for port ${port}`);
+      }
+      defaultPorts.add(port);
+    });
+
+    const nameDirectives = findDirectives(server.directives, 'server_name');
+    const nameRegexes = nameDirectives.flatMap(directive => directive.args
+      .filter(name => name.startsWith('~'))
+      .map(name => compileServerName(directive, name)));
+
+    return {
+      listen,
+      serverNames: nameDirectives.flatMap(directive => directive.args.map(name =>
+        name.startsWith('~') ? name : name.toLowerCase()
+      )),
+      nameRegexes,
+      routes: buildServerRoutes(server, httpSettings, upstreams),
+      engine: buildEngineConfig(server.directives, httpEngine),
+      accessLog: buildAccessLogConfig(server.directives, httpAccessLog, logFormats),
+      rateLimit: buildRateLimitConfig(server.directives, httpSettings.rateLimit),
+      loc: server.loc
+    };
+  });
+}
+
+// Function to list the ports to bind. A port is bound to a single address only
+// when every server listening on it names the same one.
+export function listenAddresses(servers: VirtualServer[]): ListenConfig[] {
+  const byPort = new Map<number, Set<string | undefined>>();
+
+  for (const server of servers) {
+    for (const { host, port } of server.listen) {
+      const hosts = byPort.get(port) || new Set<string | undefined>();
+      hosts.add(host);
+      byPort.set(port, hosts);
+    }
+  }
+
+  return [...byPort.entries()].map(([port, hosts]) => ({
+    port,
+    host: hosts.size === 1 ? [...hosts][0] : undefined,
+    defaultServer: false
+  }));
+}
+
+// Function to reduce a Host header to the name matched against server_name
+export function normalizeHostHeader(hostHeader: string | undefined): string {
+  return (hostHeader || '')
+    .replace(/^\[([^\]]+)\](:\d+)?$/, '$1')
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+    .toLowerCase();
+}
+
+// Function to get the length of the wildcard name matching the host, or -1.
+// `.example.com` is shorthand for both `example.com` and `*.example.com`.
+function wildcardMatch(name: string, host: string, leading: boolean): number {
+  if (leading && name.startsWith('.')) {
+    return host === name.slice(1) || host.endsWith(name) ? name.length : -1;
+  }
+  if (leading && name.startsWith('*.')) {
+    return host.endsWith(name.slice(1)) ? name.length : -1;
+  }
+  if (!leading && name.endsWith('.*')) {
+    return host.startsWith(name.slice(0, -1)) ? name.length : -1;
+  }
+  return -1;
+}
+
+// Function to pick the server for a request using nginx's server_name order:
+// exact name, longest leading wildcard, longest trailing wildcard, first
+// matching regex, then the default server of the port the request came in on
+export function selectServer(
+  servers: VirtualServer[],
+  port: number | undefined,
+  hostHeader: string | undefined
+): VirtualServer | null {
+  const listening = servers.filter(server => server.listen.some(listen => listen.port === port));
+  // Requests arriving on a port no server declares (e.g. behind a platform's
+  // own load balancer) are matched against every server
+  const candidates = listening.length > 0 ? listening : servers;
+  const host = normalizeHostHeader(hostHeader);
+
+  const exact = candidates.find(server => server.serverNames.includes(host));
+  if (exact) {
+    return exact;
+  }
+
+  for (const leading of [true, false]) {
+    let best: VirtualServer | null = null;
+    let bestLength = -1;
+    for (const server of candidates) {
+      for (const name of server.serverNames) {
+        const length = wildcardMatch(name, host, leading);
+        if (length > bestLength) {
+          best = server;
+          bestLength = length;
+        }
+      }
+    }
+    if (best) {
+      return best;
+    }
+  }
+
+  const regex = candidates.find(server => server.nameRegexes.some(pattern => pattern.test(host)));
+  if (regex) {
+    return regex;
+  }
+
+  const defaultServer = candidates.find(server =>
+    server.listen.some(listen => listen.defaultServer && (listening.length === 0 || listen.port === port))
+  );
+  return defaultServer || candidates[0] || null;
+}
+
+// Function to format a server for logs and the status endpoint, e.g. "localhost (listen 3000 default_server)"
+export function formatServer(server: VirtualServer): string {
+  return `${formatServerNames(server)} (listen ${formatListen(server)})`;
+}
+
+// Function to describe a server block's server_name list
+export function formatServerNames(server: VirtualServer): string {
+  return server.serverNames.length > 0 ? server.serverNames.join(' ') : '""';
+}
+
+// Function to describe where a server block listens, e.g. "3000, 127.0.0.1:8080 default_server"
+export function formatListen(server: VirtualServer): string {
+  return server.listen
+    .map(({ host, port, defaultServer }) => `${host ? `${host}:` : ''}${port}${defaultServer ? ' default_server' : ''}`)
+    .join(', ');
+}
@@ -0,0 +1,104 @@
+import { UpstreamMember, UpstreamPool } from './upstreams';
+
+// Predicate for members that can take new requests, e.g. from health checks
+export type MemberFilter = (member: UpstreamMember) => boolean;
+
+// Function to pick among members with nginx's smooth weighted round-robin:
+// spreads picks in proportion to weight without sending bursts to one member
+function weightedRoundRobin(members: UpstreamMember[]): UpstreamMember {
+  let total = 0;
+  let best = members[0];
+
+  for (const member of members) {
+    member.currentWeight += member.weight;
+    total += member.weight;
+    if (member.currentWeight > best.currentWeight) {
+      best = member;
+    }
+  }
+
+  best.currentWeight -= total;
+  return best;
+}
+
+// Function to pick the member with the fewest active connections relative to
+// its weight; ties are broken by weighted round-robin
+function leastConnections(members: UpstreamMember[]): UpstreamMember {
+  const load = (member: UpstreamMember) => member.activeConnections / member.weight;
+  const lowest = Math.min(...members.map(load));
+  return weightedRoundRobin(members.filter(member => load(member) === lowest));
+}
+
+// Function to hash a client address the way ip_hash does: the first three
+// octets of an IPv4 address, or the whole IPv6 address
+function hashClientAddress(address: string): number {
+  const ipv4 = address.replace(/^::ffff:/, '').match(/^(\d+)\.(\d+)\.(\d+)\.\d+$/);
+  const key = ipv4 ? ipv4.slice(1, 4).join('.') : address;
+  let hash = 89;
+
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 113 + key.charCodeAt(i)) % 6271;
+  }
+
+  return hash;
+}
+
+// Function to pick a member by client address. Members are expanded by weight so
+// heavier ones own more of the hash space. The hash covers every primary member
+// and unavailable ones are skipped by probing forward, so clients only move when
+// their own member goes away.
+function ipHash(primaries: UpstreamMember[], clientAddress: string, isAvailable: MemberFilter): UpstreamMember {
+  const slots = primaries.flatMap(member => Array<UpstreamMember>(member.weight).fill(member));
+  const start = hashClientAddress(clientAddress) % slots.length;
+
+  for (let i = 0; i < slots.length; i++) {
+    const member = slots[(start + i) % slots.length];
+    if (isAvailable(member)) {
+      return member;
+    }
+  }
+
+  // Only reached when called without any available primary
+  return slots[start];
+}
+
+// Function to choose the member for a request. Members marked `down` or rejected
+// by `isHealthy` are skipped, and backup members are only used while no primary
+// member is available. Returns null when nothing is available.
+export function selectMember(
+  pool: UpstreamPool,
+  clientAddress: string,
+  isHealthy: MemberFilter = () => true
+): UpstreamMember | null {
+  const isAvailable: MemberFilter = member => !member.down && isHealthy(member);
+  const primaries = pool.members.filter(member => !member.backup);
+  const available = primaries.filter(isAvailable);
+
+  if (available.length === 0) {
+    const backups = pool.members.filter(member => member.backup && isAvailable(member));
+    return backups.length > 0 ? weightedRoundRobin(backups) : null;
+  }
+
+  switch (pool.strategy) {
+  case 'least_conn':
+    return leastConnections(available);
+  case 'ip_hash':
+    return ipHash(primaries, clientAddress, isAvailable);
+  default:
+    return weightedRoundRobin(available);
+  }
+}
+
+// Function to count a request against a member until the returned release
+// function is called (used by least_conn)
+export function trackConnection(member: UpstreamMember): () => void {
+  let released = false;
+  member.activeConnections++;
+
+  return () => {
+    if (!released) {
+      released = true;
+      member.activeConnections--;
+    }
+  };
+}
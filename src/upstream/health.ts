@@ -0,0 +1,269 @@
+import http from 'http';
+import https from 'https';
+import { Directive, findDirective } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration, parseParam } from '../config/values';
+
+// Interface for a `health_check` directive
+export interface HealthCheckConfig {
+  interval: number;
+  timeout: number;
+  // Consecutive failed probes before a backend is marked down
+  fails: number;
+  // Consecutive passed probes before a down backend is marked up again
+  passes: number;
+  uri: string;
+  // Inclusive range of status codes that count as healthy
+  status: [number, number];
+}
+
+// A backend answering at all (anything below 500) counts as alive by default,
+// since most services don't serve their root path
+export const DEFAULT_HEALTH_CHECK: HealthCheckConfig = {
+  interval: 5000,
+  timeout: 1000,
+  fails: 3,
+  passes: 1,
+  uri: '/',
+  status: [200, 499]
+};
+
+export const DEFAULT_MAX_FAILS = 1;
+export const DEFAULT_FAIL_TIMEOUT = 10000;
+
+// Interface for one backend to watch
+export interface HealthTarget {
+  origin: string;
+  check: HealthCheckConfig;
+  // Passive checking: proxy errors within failTimeout that mark the backend
+  // down for failTimeout (nginx's max_fails / fail_timeout, 0 disables)
+  maxFails: number;
+  failTimeout: number;
+}
+
+// Interface for the health of one backend, as reported by /proxy-status
+export interface BackendHealth {
+  origin: string;
+  status: 'up' | 'down';
+  // Set while proxy errors keep the backend out of rotation
+  passiveDownUntil?: string;
+  consecutiveFailures: number;
+  consecutiveSuccesses: number;
+  lastCheckedAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+}
+
+// Result of one active probe
+export interface ProbeResult {
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+export type Probe = (origin: string, check: HealthCheckConfig) => Promise<ProbeResult>;
+
+// Interface for the running health subsystem
+export interface HealthMonitor {
+  isUp(origin: string): boolean;
+  recordFailure(origin: string, error: Error): void;
+  snapshot(): BackendHealth[];
+  // Probe every backend once now, then keep probing on each backend's interval
+  start(): Promise<void>;
+  stop(): void;
+}
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to read a `health_check [interval=] [timeout=] [fails=] [passes=] [uri=] [status=]`
+// directive, falling back to the inherited config when the level declares none
+export function buildHealthCheckConfig(directives: Directive[], inherited: HealthCheckConfig): HealthCheckConfig {
+  const directive = findDirective(directives, 'health_check');
+  if (!directive) {
+    return inherited;
+  }
+
+  const check = { ...inherited };
+
+  for (const arg of directive.args) {
+    const param = parseParam(arg);
+    const invalid = () => configError(directive, `invalid parameter "${arg}"`);
+    if (!param) {
+      throw invalid();
+    }
+
+    switch (param.key) {
+    case 'interval':
+    case 'timeout': {
+      const duration = parseDuration(param.value);
+      if (!duration) {
+        throw invalid();
+      }
+      check[param.key] = duration;
+      break;
+    }
+    case 'fails':
+    case 'passes':
+      if (!/^[1-9]\d*$/.test(param.value)) {
+        throw invalid();
+      }
+      check[param.key] = Number(param.value);
+      break;
+    case 'uri':
+      if (!param.value.startsWith('/')) {
+        throw invalid();
+      }
+      check.uri = param.value;
+      break;
+    case 'status': {
+      const range = param.value.match(/^(\d{3})(?:-(\d{3}))?$/);
+      if (!range) {
+        throw invalid();
+      }
+      check.status = [Number(range[1]), Number(range[2] || range[1])];
+      break;
+    }
+    default:
+      throw invalid();
+    }
+  }
+
+  return check;
+}
+
+// Function to probe a backend with a plain GET
+export const httpProbe: Probe = (origin, check) => new Promise(resolve => {
+  const client = origin.startsWith('https:') ? https : http;
+  const req = client.get(`${origin}${check.uri}`, res => {
+    res.resume();
+    const statusCode = res.statusCode || 0;
+    const ok = statusCode >= check.status[0] && statusCode <= check.status[1];
+    resolve({ ok, statusCode, error: ok ? undefined : `unexpected status ${statusCode}` });
+  });
+
+  req.on('error', err => resolve({ ok: false, error: err.message }));
+  req.setTimeout(check.timeout, () => {
+    req.destroy(new Error(`timed out after ${check.timeout}ms`));
+  });
+});
+
+// Function to create the health monitor for a set of backends. Backends the
+// monitor doesn't know about are always considered up.
+export function createHealthMonitor(targets: HealthTarget[], probe: Probe = httpProbe): HealthMonitor {
+  const states = new Map(targets.map(target => [target.origin, {
+    target,
+    up: true,
+    consecutiveFailures: 0,
+    consecutiveSuccesses: 0,
+    passiveFailures: [] as number[],
+    passiveDownUntil: 0,
+    lastCheckedAt: undefined as string | undefined,
+    lastStatusCode: undefined as number | undefined,
+    lastError: undefined as string | undefined
+  }]));
+  const timers: NodeJS.Timeout[] = [];
+  // Bumped by every start and stop, so a start still running its first probes
+  // doesn't install timers once it was stopped or started over
+  let run = 0;
+
+  const runProbe = async (origin: string): Promise<void> => {
+    const state = states.get(origin);
+    if (!state) {
+      return;
+    }
+
+    const result = await probe(origin, state.target.check);
+    state.lastCheckedAt = new Date().toISOString();
+    state.lastStatusCode = result.statusCode;
+    state.lastError = result.error;
+
+    if (result.ok) {
+      state.consecutiveFailures = 0;
+      state.consecutiveSuccesses++;
+      if (!state.up && state.consecutiveSuccesses >= state.target.check.passes) {
+        state.up = true;
+        console.log(`✅ ${origin} is back up (${result.statusCode})`);
+      }
+    } else {
+      state.consecutiveSuccesses = 0;
+      state.consecutiveFailures++;
+      if (state.up && state.consecutiveFailures >= state.target.check.fails) {
+        state.up = false;
+        console.log(`❌ ${origin} marked down after ${state.consecutiveFailures} failed checks: ${result.error}`);
+      }
+    }
+  };
+
+  const isUp = (origin: string): boolean => {
+    const state = states.get(origin);
+    return !state || (state.up && Date.now() >= state.passiveDownUntil);
+  };
+
+  return {
+    isUp,
+
+    recordFailure(origin, error) {
+      const state = states.get(origin);
+      if (!state) {
+        return;
+      }
+
+      const now = Date.now();
+      const { maxFails, failTimeout } = state.target;
+      if (maxFails === 0) {
+        return;
+      }
+      state.passiveFailures = [...state.passiveFailures.filter(at => now - at < failTimeout), now];
+
+      if (state.passiveFailures.length >= maxFails && now >= state.passiveDownUntil) {
+        state.passiveDownUntil = now + failTimeout;
+        state.passiveFailures = [];
+        console.log(`❌ ${origin} marked down for ${failTimeout}ms after proxy errors: ${error.message}`);
+      }
+    },
+
+    snapshot() {
+      return [...states.entries()].map(([origin, state]) => ({
+        origin,
+        status: isUp(origin) ? 'up' : 'down',
+        passiveDownUntil: state.passiveDownUntil > Date.now()
+          ? new Date(state.passiveDownUntil).toISOString()
+          : undefined,
+        consecutiveFailures: state.consecutiveFailures,
+        consecutiveSuccesses: state.consecutiveSuccesses,
+        lastCheckedAt: state.lastCheckedAt,
+        lastStatusCode: state.lastStatusCode,
+        lastError: state.lastError
+      }));
+    },
+
+    async start() {
+      const current = ++run;
+      console.log('Checking backend services from config...');
+      await Promise.all([...states.keys()].map(runProbe));
+      if (current !== run) {
+        return;
+      }
+
+      for (const [origin, state] of states) {
+        const { lastStatusCode, lastError } = state;
+        console.log(lastError
+          ? `❌ ${origin} is not reachable: ${lastError}`
+          : `✅ ${origin} is reachable (${lastStatusCode})`);
+
+        const timer = setInterval(() => {
+          runProbe(origin).catch(error => console.error(`Error checking ${origin}:`, error));
+        }, state.target.check.interval);
+        // Health checks alone shouldn't keep the process alive
+        timer.unref();
+        timers.push(timer);
+      }
+    },
+
+    stop() {
+      run++;
+      timers.splice(0).forEach(clearInterval);
+    }
+  };
+}
@@ -0,0 +1,164 @@
+import { Directive, SourceLocation, findDirectives } from '../config/ast';
+import { NginxConfigError } from '../config/errors';
+import { parseDuration } from '../config/values';
+import {
+  DEFAULT_FAIL_TIMEOUT,
+  DEFAULT_HEALTH_CHECK,
+  DEFAULT_MAX_FAILS,
+  HealthCheckConfig,
+  buildHealthCheckConfig
+} from './health';
+
+export type BalancingStrategy = 'round_robin' | 'least_conn' | 'ip_hash';
+
+// Interface for a `server` entry of an upstream block
+export interface UpstreamMember {
+  // host:port as written in the config
+  address: string;
+  // Normalized origin, e.g. http://localhost:8001
+  url: string;
+  weight: number;
+  backup: boolean;
+  // Marked permanently unavailable with the `down` parameter
+  down: boolean;
+  maxFails: number;
+  failTimeout: number;
+  // Balancer state, see balancer.ts
+  currentWeight: number;
+  activeConnections: number;
+}
+
+// Interface for an `upstream name { ... }` block
+export interface UpstreamPool {
+  name: string;
+  strategy: BalancingStrategy;
+  members: UpstreamMember[];
+  healthCheck: HealthCheckConfig;
+  loc: SourceLocation;
+}
+
+const STRATEGY_DIRECTIVES: Record<string, BalancingStrategy> = {
+  least_conn: 'least_conn',
+  ip_hash: 'ip_hash'
+};
+
+const configError = (directive: Directive, message: string): NginxConfigError =>
+  new NginxConfigError(message, directive.loc.file, directive.loc.line, directive.loc.column);
+
+// Function to parse `server host[:port] [weight=N] [max_fails=N] [fail_timeout=time] [backup] [down]`
+function parseMember(directive: Directive): UpstreamMember {
+  if (directive.args.length === 0) {
+    throw configError(directive, 'invalid number of arguments in "server" directive');
+  }
+
+  const [address, ...params] = directive.args;
+  const invalidHost = () => configError(directive, `invalid host in upstream "${address}"`);
+  if (address.startsWith('unix:') || address.includes('://')) {
+    throw invalidHost();
+  }
+
+  const member: UpstreamMember = {
+    address: /:\d+$/.test(address) ? address : `${address}:80`,
+    url: '',
+    weight: 1,
+    backup: false,
+    down: false,
+    maxFails: DEFAULT_MAX_FAILS,
+    failTimeout: DEFAULT_FAIL_TIMEOUT,
+    currentWeight: 0,
+    activeConnections: 0
+  };
+  try {
+    member.url = new URL(`http://${member.address}`).origin;
+  } catch {
+    throw invalidHost();
+  }
+
+  for (const param of params) {
+    const weight = param.match(/^weight=(\d+)$/);
+    const maxFails = param.match(/^max_fails=(\d+)$/);
+    const failTimeout = param.match(/^fail_timeout=(.+)$/);
+    if (weight && Number(weight[1]) > 0) {
+      member.weight = Number(weight[1]);
+    } else if (maxFails) {
+      member.maxFails = Number(maxFails[1]);
+    } else if (failTimeout && parseDuration(failTimeout[1])) {
+      member.failTimeout = parseDuration(failTimeout[1]) as number;
+    } else if (param === 'backup') {
+      member.backup = true;
+    } else if (param === 'down') {
+      member.down = true;
+    } else {
+      throw configError(directive, `invalid parameter "${param}"`);
+    }
+  }
+
+  return member;
+}
+
+// Function to build an upstream pool from its block
+function buildPool(directive: Directive, httpHealthCheck: HealthCheckConfig): UpstreamPool {
+  if (directive.args.length !== 1 || !directive.block) {
+    throw configError(directive, 'invalid number of arguments in "upstream" directive');
+  }
+
+  const pool: UpstreamPool = {
+    name: directive.args[0],
+    strategy: 'round_robin',
+    members: [],
+    healthCheck: buildHealthCheckConfig(directive.block, httpHealthCheck),
+    loc: directive.loc
+  };
+
+  for (const child of directive.block) {
+    if (child.name === 'server') {
+      pool.members.push(parseMember(child));
+    } else if (Object.prototype.hasOwnProperty.call(STRATEGY_DIRECTIVES, child.name)) {
+      pool.strategy = STRATEGY_DIRECTIVES[child.name];
+    } else if (child.name !== 'health_check') {
+      throw configError(child, `unknown directive "${child.name}" in upstream block`);
+    }
+  }
+
+  if (pool.members.length === 0) {
+    throw configError(directive, `no servers are inside upstream "${pool.name}"`);
+  }
+
+  return pool;
+}
+
+// Function to collect the upstream blocks of the http context by name. An
+// http-level `health_check` applies to pools that don't declare their own.
+export function buildUpstreams(
+  httpDirectives: Directive[],
+  httpHealthCheck: HealthCheckConfig = DEFAULT_HEALTH_CHECK
+): Map<string, UpstreamPool> {
+  const upstreams = new Map<string, UpstreamPool>();
+
+  for (const directive of findDirectives(httpDirectives, 'upstream')) {
+    const pool = buildPool(directive, httpHealthCheck);
+    if (upstreams.has(pool.name)) {
+      throw configError(directive, `duplicate upstream "${pool.name}"`);
+    }
+    upstreams.set(pool.name, pool);
+  }
+
+  return upstreams;
+}
+
+// Function to format a pool for logs and the LLM prompt, e.g. "localhost:8001 weight=3, localhost:8005 backup".
+// Members `isHealthy` rejects are flagged as unhealthy.
+export function formatPoolMembers(
+  pool: UpstreamPool,
+  isHealthy: (member: UpstreamMember) => boolean = () => true
+): string {
+  return pool.members
+    .map(member => [
+      member.address,
+      member.weight !== 1 ? `weight=${member.weight}` : '',
+      member.backup ? 'backup' : '',
+      member.down ? 'down' : '',
+      !member.down && !isHealthy(member) ? 'unhealthy' : ''
+    ].filter(Boolean).join(' '))
+    .join(', ');
+}
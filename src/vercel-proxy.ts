@@ -1,262 +1,1354 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { createProxyMiddleware, Options } from 'http-proxy-middleware';
-import { anthropic } from '@ai-sdk/anthropic';
-import { generateText } from 'ai';
 import fs from 'fs';
-import path from 'path';
-import http from 'http';
+import { ClientRequest, IncomingHttpHeaders, IncomingMessage, STATUS_CODES, Server, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { Socket } from 'net';
+import { Duplex } from 'stream';
+import { createProxyMiddleware } from 'http-proxy-middleware';
 import dotenv from 'dotenv';
+import { NginxConfigError } from './config/errors';
+import { DEFAULT_CONFIG_PATH, ProxyConfig, loadProxyConfig } from './proxy-config';
+import { ProxyState, createProxyState } from './proxy-state';
+import { ResolvedTarget, RouteConfig, formatRoute, resolveTarget } from './routing/routes';
+import { matchRoute } from './routing/location-matcher';
+import { isSafePath, validateDecision } from './routing/validation';
+import { RoutingDecision } from './routing/llm-router';
+import { RoutingEngine, createRuleEngine } from './routing/engine';
+import { DEFAULT_LLM_CONTEXT, buildRoutingRequest } from './routing/redaction';
+import { VirtualServer, formatServer, listenAddresses, selectServer } from './routing/virtual-hosts';
+import { diffRoutes, formatRouteDiff } from './routing/route-diff';
+import { ShadowRecord, compareShadowDecision, createShadowLog } from './routing/shadow';
+import { decisionCacheKey } from './routing/decision-cache';
+import { createSpendingTracker } from './routing/spending';
+import { CallReport, CircuitBreaker, createCircuitBreakers } from './routing/circuit-breaker';
+import {
+  BudgetResult,
+  DEFAULT_LLM_BUDGET,
+  RoutingWinner,
+  createRoutingStats,
+  defaultLlmTimeout,
+  withinBudget
+} from './routing/latency-budget';
+import { applyProxyRequestHeaders, applyProxyResponseHeaders } from './proxy/headers';
+import { RequestBody, readRequestBody } from './proxy/body';
+import {
+  DEFAULT_NEXT_UPSTREAM,
+  RetryBudget,
+  UpstreamFailure,
+  applyUpstreamTimeouts,
+  canResend,
+  canRetry,
+  countsAsFailure,
+  proxyFailure,
+  sendErrorPage,
+  statusFailure
+} from './proxy/next-upstream';
+import { isUpgradeRequest, rejectUpgrade, upgradeProblem } from './proxy/upgrade';
+import { isAdminAuthorized } from './proxy/admin';
+import { UpstreamAttempt, countBodyBytes, writeAccessLog } from './proxy/access-log';
+import { RateLimitConfig, createRateLimiter } from './proxy/rate-limit';
+import {
+  CacheZone,
+  CachedResponse,
+  ResponseStore,
+  cachedResponseStatus,
+  captureResponse,
+  createResponseCache,
+  responseCacheKey,
+  sendCachedResponse,
+  staleOnError,
+  toCachedResponse,
+  varyMatches
+} from './proxy/response-cache';
+import { trackConnection } from './upstream/balancer';
+import { FallbackReason, createProxyMetrics } from './metrics/proxy-metrics';
 
 // Load environment variables
 dotenv.config();
 
-// Interface for route configuration
-interface RouteConfig {
-  path: string;
-  target: string;
-}
+const app = express();
+// Routing latency budget for locations without `llm_timeout`
+const LLM_TIMEOUT = defaultLlmTimeout();
+// Only requests that can be sent twice are started speculatively in race mode
+const RACE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// Bearer token for the admin endpoints; they are disabled when it isn't set
+const ADMIN_TOKEN = process.env.NGINCLAUDE_ADMIN_TOKEN;
+// How long a background refresh of a cached response may take in all
+const CACHE_REFRESH_TIMEOUT = 60000;
 
-// Function to parse Nginx-style configuration
-function parseNginxConfig(configPath: string): RouteConfig[] {
-  try {
-    const configContent = fs.readFileSync(configPath, 'utf8');
-    const routes: RouteConfig[] = [];
-    
-    // Extract location blocks using regex
-    const locationRegex = /location\s+([^\s{]+)\s*{[^}]*proxy_pass\s+([^;]+);/g;
-    let match;
-    
-    while ((match = locationRegex.exec(configContent)) !== null) {
-      const path = match[1];
-      const target = match[2].trim();
-      
-      routes.push({
-        path: path,
-        target: target
-      });
-    }
-    
-    // Sort routes by specificity (longer paths first)
-    routes.sort((a, b) => {
-      // Put root location (/) at the end
-      if (a.path === '/') return 1;
-      if (b.path === '/') return -1;
-      
-      // Sort by path length (longer first)
-      return b.path.length - a.path.length;
-    });
-    
-    return routes;
-  } catch (error) {
-    console.error('Error parsing Nginx config:', error);
-    return [];
-  }
+// Interface for how to start the proxy
+export interface ProxyOptions {
+  // Nginx-style config file with the server blocks and their routes
+  configPath: string;
+  // Port for server blocks without a `listen` directive
+  port: number;
 }
 
-const app = express();
-const PORT = process.env.PORT || 3000;
+let options: ProxyOptions = {
+  configPath: DEFAULT_CONFIG_PATH,
+  port: Number(process.env.PORT || 3000)
+};
+
+// The live config and everything built from it; replaced as a whole on reload.
+// Set by startProxy.
+let activeState: ProxyState;
+
+// Which path routed each request: cache, the engine, or the config. Kept
+// across reloads.
+const routingStats = createRoutingStats();
 
-// Load routes from Nginx-style config file
-const configPath = path.join(__dirname, '..', 'nginclaude-proxy.conf');
-const routes = parseNginxConfig(configPath);
+// Engine picks for locations in shadow mode, see /proxy-status/shadow. Kept
+// across reloads.
+const shadowLog = createShadowLog();
 
-console.log('Loaded routes from config:');
-routes.forEach(route => {
-  console.log(`${route.path} => ${route.target}`);
+// Token and cost totals against the llm_spend_cap caps, see /proxy-status.
+// Kept across reloads.
+const spending = createSpendingTracker(() => activeState.config.spending);
+
+// State of the limit_req_zone and limit_conn_zone zones. Kept across reloads.
+const rateLimiter = createRateLimiter();
+
+// Responses cached in the proxy_cache_path zones, and the keys being
+// refreshed in the background. Kept across reloads.
+const responseCache = createResponseCache();
+const refreshing = new Set<string>();
+
+// Routes every request like the config does once a spending cap is reached
+const capEngine = createRuleEngine();
+
+// Circuit breakers around the engines' model calls, see /proxy-status. Kept
+// across reloads.
+const circuitBreakers = createCircuitBreakers((engine, { from, to, reason }) =>
+  console.warn(`Circuit breaker of ${engine} went from ${from} to ${to}: ${reason}` +
+    `${to === 'open' ? ', routing by the config' : ''}`));
+
+// Prometheus metrics, see /metrics. Kept across reloads.
+const metrics = createProxyMetrics({
+  health: () => activeState.health.snapshot(),
+  routing: () => routingStats.snapshot(),
+  decisionCache: () => activeState.decisionCache.stats()
 });
 
-// Middleware to log requests
+// Listeners by address, see bindListeners
+const listeners = new Map<string, Server>();
+
+// Middleware to log requests, and to count them in the metrics and write the
+// access log once they're done
 app.use((req: Request, res: Response, next: NextFunction) => {
-  console.log(`${new Date().toISOString()} - ${req.method} ${req.url}`);
+  const receivedAt = new Date();
+  console.log(`${receivedAt.toISOString()} - ${req.method} ${req.url}`);
+  const startedAt = performance.now();
+  const bodyBytes = countBodyBytes(res);
+  
+  res.on('close', () => {
+    // Only proxied requests are labelled with a server, see the proxy middleware
+    if (res.locals.server === undefined) {
+      return;
+    }
+    // Like nginx, 499 means the client went away before the response was sent
+    const statusCode = res.writableFinished ? res.statusCode : 499;
+    const requestTime = (performance.now() - startedAt) / 1000;
+    metrics.observeRequest({
+      server: res.locals.server,
+      location: res.locals.location || '',
+      upstream: res.locals.upstream || ''
+    }, statusCode, requestTime);
+    
+    const upstreams: UpstreamAttempt[] = res.locals.upstreams || [];
+    const lastAttempt = upstreams[upstreams.length - 1];
+    if (lastAttempt && lastAttempt.endedAt === undefined) {
+      lastAttempt.endedAt = Date.now();
+    }
+    writeAccessLog(res.locals.accessLog || [], {
+      req,
+      statusCode,
+      bodyBytes: bodyBytes(),
+      startedAt: receivedAt,
+      requestTime,
+      upstreams,
+      routingSource: res.locals.routing,
+      location: res.locals.location,
+      cacheStatus: res.locals.cacheStatus
+    });
+  });
   next();
 });
 
-// Middleware to parse JSON body
-app.use(express.json());
+// Function to label a response with the location and backend serving it, for
+// the metrics and the access log. Every backend tried is kept, in order.
+function labelResponse(res: Response, route: RouteConfig, target: string, requestedAt: number = Date.now()): void {
+  res.locals.location = route.id;
+  res.locals.upstream = new URL(target).origin;
+  
+  const upstreams: UpstreamAttempt[] = res.locals.upstreams || [];
+  const previous = upstreams[upstreams.length - 1];
+  if (previous && previous.endedAt === undefined) {
+    previous.endedAt = Date.now();
+  }
+  upstreams.push({ origin: res.locals.upstream, startedAt: requestedAt });
+  res.locals.upstreams = upstreams;
+}
 
-// Function for rule-based fallback routing
-function useRuleBasedFallback(req: Request, res: Response, next: NextFunction, url: string): void {
-  console.log('Using rule-based fallback routing from nginv-proxy.conf...');
+// Interface for what the attempts at serving one request share: the retry
+// budget, the backends already tried, and the route to move on to once the
+// current one has no other live backend
+interface RetryState extends RetryBudget {
+  tried: Set<string>;
+  nextRoute: RouteConfig | null;
+}
+
+// Function to start the retry state of a request, see proxyToBackend
+const startRetries = (nextRoute: RouteConfig | null): RetryState =>
+  ({ tries: 0, startedAt: Date.now(), tried: new Set(), nextRoute });
+
+// Function to pick the backend for the next attempt at a request: another
+// live member of the route's pool not tried yet, then one of the next route
+function nextBackend(
+  state: ProxyState,
+  req: IncomingMessage,
+  route: RouteConfig,
+  retry: RetryState
+): { route: RouteConfig; resolved: ResolvedTarget } | null {
+  const untried = (origin: string) => state.health.isUp(origin) && !retry.tried.has(origin);
+  const clientAddress = req.socket.remoteAddress || '';
+  
+  const resolved = resolveTarget(route, clientAddress, untried);
+  if (resolved) {
+    return { route, resolved };
+  }
+  const nextRoute = retry.nextRoute;
+  const nextResolved = nextRoute && nextRoute !== route ? resolveTarget(nextRoute, clientAddress, untried) : null;
+  return nextRoute && nextResolved ? { route: nextRoute, resolved: nextResolved } : null;
+}
+
+// Function to proxy a request to a backend. When the attempt fails in a way
+// the route's proxy_next_upstream retries, the request goes to the next
+// backend, see nextBackend. Once none is left, a request the engine routed
+// falls back to the config's own route when its backend couldn't be reached;
+// otherwise the client gets a 502 or 504 error page, or the last backend's
+// response when it answered with an error.
+function proxyToBackend(
+  state: ProxyState,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  route: RouteConfig,
+  resolved: ResolvedTarget,
+  body: RequestBody,
+  retry: RetryState,
+  rewrittenPath?: string
+): void {
+  const url = req.url;
+  // A body too large to keep around can't be sent again after a failed attempt
+  const bodyStream = body.stream();
+  if (!bodyStream) {
+    console.error('Request body was already sent upstream, cannot retry:', url);
+    sendErrorPage(res, 502);
+    return;
+  }
   
-  // Find matching route from the config
-  let fallbackTarget: string | null = null;
+  const policy = route.nextUpstream;
+  const target = resolved.target;
+  const targetOrigin = new URL(target).origin;
+  retry.tries++;
+  retry.tried.add(targetOrigin);
+  labelResponse(res, route, target);
   
-  for (const route of routes) {
-    if (url.startsWith(route.path)) {
-      fallbackTarget = route.target;
-      break;
+  let release = resolved.member ? trackConnection(resolved.member) : () => undefined;
+  res.on('close', () => release());
+  const finish = () => {
+    release();
+    release = () => undefined;
+  };
+  let reachedBackend = false;
+  let timedOut = false;
+  
+  // Function to pass the request to the next backend. Returns false when it
+  // can't be retried.
+  const retryNext = (failure: UpstreamFailure): boolean => {
+    finish();
+    const nextTarget = canRetry(failure, policy, req.method, reachedBackend, retry)
+      ? nextBackend(state, req, route, retry)
+      : null;
+    if (!nextTarget) {
+      return false;
+    }
+    console.warn(`Upstream ${failure} from ${targetOrigin}, passing ${req.method} ${url} to ${nextTarget.resolved.target}` +
+      `${nextTarget.route !== route ? ` (route ${nextTarget.route.id})` : ''}`);
+    metrics.countUpstreamRetry(failure);
+    if (nextTarget.route !== route) {
+      metrics.countFallback('proxy_error');
+    }
+    const nextPath = nextTarget.route === route ? rewrittenPath : undefined;
+    proxyToBackend(state, req, res, next, nextTarget.route, nextTarget.resolved, body, retry, nextPath);
+    return true;
+  };
+  
+  // Function to serve a request from the config's own route once the route
+  // the engine picked failed with nothing left to retry, as the rule-based
+  // fallback does. Returns false when it can't.
+  const fallBackToConfig = (): boolean => {
+    const configRoute = retry.nextRoute;
+    if (!configRoute || configRoute === route || !canResend(policy, req.method, reachedBackend)) {
+      return false;
+    }
+    const configTarget = resolveTarget(configRoute, req.socket.remoteAddress || '', state.health.isUp);
+    if (!configTarget) {
+      return false;
     }
+    console.warn(`Route ${route.id} failed, falling back to ${configRoute.id} from the config`);
+    metrics.countFallback('proxy_error');
+    proxyToBackend(state, req, res, next, configRoute, configTarget, body, retry);
+    return true;
+  };
+  
+  console.log(`Target host: ${target}, Path: ${rewrittenPath || url}`);
+  try {
+    const proxy = createProxyMiddleware({
+      target,
+      changeOrigin: true,
+      selfHandleResponse: true,
+      buffer: bodyStream,
+      pathRewrite: rewrittenPath ? () => rewrittenPath : undefined,
+      onProxyReq: (proxyReq, req) => {
+        console.log(`Proxying ${req.method} ${req.url} to ${target}${rewrittenPath || ''}`);
+        applyProxyRequestHeaders(proxyReq, req, route.headers);
+        applyUpstreamTimeouts(proxyReq, policy, () => {
+          reachedBackend = true;
+        }, () => {
+          timedOut = true;
+        });
+      },
+      onProxyRes: (proxyRes, req, res) => {
+        // A backend that answered has seen the request
+        reachedBackend = true;
+        const failure = statusFailure(proxyRes.statusCode || 502);
+        if (failure && policy.conditions.includes(failure)) {
+          if (countsAsFailure(failure)) {
+            state.health.recordFailure(targetOrigin, new Error(`status ${proxyRes.statusCode}`));
+          }
+          if (retryNext(failure)) {
+            proxyRes.resume();
+            return;
+          }
+        }
+        applyProxyResponseHeaders(proxyRes, req, route.headers);
+        res.writeHead(proxyRes.statusCode || 502, proxyRes.statusMessage, proxyRes.headers);
+        proxyRes.pipe(res);
+      },
+      onError: (err, req, res) => {
+        const failure = proxyFailure(err, timedOut);
+        console.error(`Proxy ${failure} from ${targetOrigin}:`, err.message);
+        state.health.recordFailure(targetOrigin, err);
+        // Nothing can be done for a response that was already under way
+        if (res.headersSent || !(retryNext(failure) || fallBackToConfig())) {
+          sendErrorPage(res, failure === 'timeout' ? 504 : 502);
+        }
+      }
+    });
+    
+    proxy(req, res, next);
+  } catch (error) {
+    console.error('Proxy error:', error);
+    sendErrorPage(res, 500);
   }
+}
+
+// Function for rule-based fallback routing
+function useRuleBasedFallback(
+  state: ProxyState,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  url: string,
+  serverRoutes: RouteConfig[],
+  body: RequestBody
+): void {
+  console.log('Using rule-based fallback routing from nginv-proxy.conf...');
+  
+  // Find matching route from the server block's locations
+  const fallbackRoute = matchRoute(serverRoutes, url);
   
-  if (!fallbackTarget) {
+  if (!fallbackRoute) {
     console.error('No matching route found for:', url);
     res.status(404).send('No matching route found');
     return;
   }
   
-  console.log(`Fallback routing to: ${fallbackTarget}${url}`);
+  // Spread load across the pool for upstream routes
+  const resolved = resolveTarget(fallbackRoute, req.socket.remoteAddress || '', state.health.isUp);
+  if (!resolved) {
+    console.error(`No live upstreams for ${fallbackRoute.target}:`, url);
+    sendErrorPage(res, 502);
+    return;
+  }
   
-  try {
-    const fallbackProxy = createProxyMiddleware({
-      target: fallbackTarget,
-      changeOrigin: true
+  console.log(`Fallback routing to: ${resolved.target}${url}`);
+  proxyToBackend(state, req, res, next, fallbackRoute, resolved, body, startRetries(null));
+}
+
+// Interface for a request sent down the config's own route before the engine has answered
+interface SpeculativeProxy {
+  // Resolves with the upstream response once its headers arrive, or null if the request failed
+  response: Promise<IncomingMessage | null>;
+  // Send the upstream response to the client
+  commit(proxyRes: IncomingMessage): void;
+  // Abandon the request because the engine picked another route
+  discard(): void;
+}
+
+// Whichever comes first in race mode: the engine's answer or the upstream response
+type RaceResult = BudgetResult<RoutingDecision> | { status: 'upstream' };
+
+// Function to start proxying a request to a route without sending anything to
+// the client yet. Returns null when the route has no live backend or the body
+// can't be sent twice.
+function startSpeculativeProxy(
+  state: ProxyState,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  route: RouteConfig,
+  body: RequestBody
+): SpeculativeProxy | null {
+  const resolved = resolveTarget(route, req.socket.remoteAddress || '', state.health.isUp);
+  const bodyStream = body.stream();
+  if (!resolved || !bodyStream) {
+    return null;
+  }
+  
+  const targetOrigin = new URL(resolved.target).origin;
+  const requestedAt = Date.now();
+  const release = resolved.member ? trackConnection(resolved.member) : () => undefined;
+  let proxyRequest: ClientRequest | undefined;
+  let discarded = false;
+  
+  const response = new Promise<IncomingMessage | null>(resolve => {
+    const proxy = createProxyMiddleware({
+      target: resolved.target,
+      changeOrigin: true,
+      selfHandleResponse: true,
+      buffer: bodyStream,
+      onProxyReq: (proxyReq, req) => {
+        proxyRequest = proxyReq;
+        applyProxyRequestHeaders(proxyReq, req, route.headers);
+      },
+      onProxyRes: proxyRes => resolve(proxyRes),
+      onError: err => {
+        if (!discarded) {
+          console.error('Speculative proxy error:', err);
+          state.health.recordFailure(targetOrigin, err);
+        }
+        release();
+        resolve(null);
+      }
     });
     
-    fallbackProxy(req, res, next);
-  } catch (fallbackError) {
-    console.error('Fallback proxy error:', fallbackError);
-    res.status(500).send('Proxy error');
+    proxy(req, res, next);
+  });
+  
+  return {
+    response,
+    
+    commit(proxyRes) {
+      labelResponse(res, route, resolved.target, requestedAt);
+      applyProxyResponseHeaders(proxyRes, req, route.headers);
+      res.writeHead(proxyRes.statusCode || 502, proxyRes.statusMessage, proxyRes.headers);
+      proxyRes.pipe(res);
+      res.on('close', release);
+    },
+    
+    discard() {
+      discarded = true;
+      proxyRequest?.destroy();
+      release();
+    }
+  };
+}
+
+// Function to log and count which path routed a request, and label the
+// response with it for the access log
+function recordRoutingWinner(winner: RoutingWinner, startedAt: number, res?: Response): void {
+  routingStats.record(winner);
+  if (res) {
+    res.locals.routing = winner;
   }
+  console.log(`Routing path: ${winner} after ${Date.now() - startedAt}ms`);
 }
 
-// Proxy middleware with LLM decision making
-app.use(async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    // Skip the status endpoint
-    if (req.url === '/proxy-status') {
-      return next();
+// Function to get the engine routing a server block's requests: its own, or
+// the config's rules while a spending cap is reached
+function engineFor(state: ProxyState, server: VirtualServer): RoutingEngine {
+  const engine = state.engines.get(server) as RoutingEngine;
+  return engine.model && spending.state() === 'exceeded' ? capEngine : engine;
+}
+
+// Function to apply limit_conn and limit_req to a request, holding it back
+// when it is over the rate but within the burst. `reject` turns the request
+// away with a status code; `whenDone` gets the function releasing its
+// connection slot. Resolves to false when the request was turned away or the
+// client left meanwhile.
+async function applyRateLimits(
+  state: ProxyState,
+  req: IncomingMessage,
+  config: RateLimitConfig,
+  reject: (status: number) => void,
+  whenDone: (release: () => void) => void
+): Promise<boolean> {
+  const client = req.socket.remoteAddress;
+  const connection = rateLimiter.acquireConnection(req, config.connections, state.config.limitZones);
+  if (connection.status === 'reject') {
+    console.warn(`Limiting connections by zone "${connection.zone}", client: ${client}`);
+    reject(config.connectionStatus);
+    return false;
+  }
+  whenDone(connection.release);
+  
+  const result = rateLimiter.limitRequest(req, config.requests, state.config.limitZones);
+  if (result.status === 'reject') {
+    console.warn(`Limiting requests, excess: ${result.excess.toFixed(3)} by zone "${result.zone}", client: ${client}`);
+    reject(config.requestStatus);
+    return false;
+  }
+  if (result.delay > 0) {
+    console.log(`Delaying request by ${result.delay}ms, client: ${client}`);
+    await new Promise(resolve => setTimeout(resolve, result.delay));
+  }
+  return !req.socket.destroyed;
+}
+
+// Function to get the circuit breaker around an engine's model calls, or null
+// when it calls no model or llm_circuit_breaker is off
+function circuitBreakerFor(server: VirtualServer, engine: RoutingEngine): CircuitBreaker | null {
+  const config = server.engine.circuitBreaker;
+  return engine.model && config.enabled ? circuitBreakers.breaker(engine.name, config) : null;
+}
+
+// Function to let a call to the engine through its circuit breaker. Returns
+// how to report the call's outcome, or null while the circuit is open.
+function admitEngineCall(server: VirtualServer, engine: RoutingEngine): CallReport | null {
+  const breaker = circuitBreakerFor(server, engine);
+  if (!breaker) {
+    return () => undefined;
+  }
+  const report = breaker.admit();
+  if (!report) {
+    console.log(`Circuit breaker of ${engine.name} is open, routing by the config`);
+  }
+  return report;
+}
+
+// Function to check llm_limit_req before asking the engine for a route
+function llmCallAllowed(state: ProxyState, req: IncomingMessage, config: RateLimitConfig): boolean {
+  const result = rateLimiter.limitRequest(req, config.llmRequests, state.config.limitZones);
+  if (result.status === 'reject') {
+    console.warn(`Limiting routing engine calls, excess: ${result.excess.toFixed(3)} by zone "${result.zone}", ` +
+      `client: ${req.socket.remoteAddress}, routing by the config`);
+    return false;
+  }
+  return true;
+}
+
+// Function to ask a server block's engine for a route within the latency
+// budget of the location the config picks, reporting the outcome to the
+// engine's circuit breaker
+function askEngine(
+  state: ProxyState,
+  engine: RoutingEngine,
+  req: IncomingMessage,
+  server: VirtualServer,
+  expectedRoute: RouteConfig | null,
+  body: RequestBody,
+  report: CallReport,
+  cancel?: AbortSignal
+): Promise<BudgetResult<RoutingDecision>> {
+  const budget = expectedRoute ? expectedRoute.llmBudget : DEFAULT_LLM_BUDGET;
+  const timeout = budget.timeout ?? LLM_TIMEOUT;
+  const llmContext = expectedRoute ? expectedRoute.llmContext : DEFAULT_LLM_CONTEXT;
+  
+  console.log(`Asking ${engine.name} for a route...`);
+  const startedAt = performance.now();
+  const seconds = () => (performance.now() - startedAt) / 1000;
+  return withinBudget(
+    signal => engine.route(
+      buildRoutingRequest(req.method || 'GET', req.url || '/', req.headers, body, llmContext),
+      server.routes,
+      {
+        isUp: state.health.isUp,
+        abortSignal: signal,
+        rules: expectedRoute ? expectedRoute.llmRules : [],
+        onUsage: usage => {
+          metrics.countTokens(engine.name, usage);
+          const cost = spending.record({
+            ...usage,
+            model: engine.model || engine.name,
+            server: formatServer(server),
+            location: expectedRoute ? expectedRoute.id : ''
+          });
+          console.log(`${engine.name} used ${usage.promptTokens} prompt and ${usage.completionTokens} ` +
+            `completion tokens (~$${cost.toFixed(6)})`);
+        }
+      }
+    ),
+    timeout,
+    cancel
+  ).then(result => {
+    metrics.observeEngineCall(engine.name, result.status, seconds());
+    if (result.status === 'timeout') {
+      console.warn(`${engine.name} did not answer within ${timeout}ms`);
+    }
+    report(result.status === 'answered' ? 'success' : result.status === 'timeout' ? 'failure' : 'ignored');
+    return result;
+  }, error => {
+    metrics.observeEngineCall(engine.name, 'error', seconds());
+    report('failure');
+    throw error;
+  });
+}
+
+// Function to check a decision against the location the config picks and
+// cache it under `cacheKey`, which is null for decisions that came from the
+// cache so their TTL isn't extended. Returns the route to use, or null when
+// the decision is rejected.
+function acceptDecision(
+  state: ProxyState,
+  decision: RoutingDecision,
+  serverRoutes: RouteConfig[],
+  expectedRoute: RouteConfig | null,
+  cacheKey: string | null
+): RouteConfig | null {
+  console.log(`Routing to: ${decision.routeId}${decision.path ? ` with path ${decision.path}` : ''}` +
+    `${decision.rule ? ` by rule ${decision.rule}` : ''}` +
+    `${decision.confidence !== undefined ? ` (confidence ${decision.confidence})` : ''}` +
+    `${decision.reasoning ? ` - ${decision.reasoning}` : ''}`);
+  
+  const validation = validateDecision(decision, serverRoutes, expectedRoute);
+  if (!validation.accepted || !validation.route) {
+    console.warn(`Rejected LLM routing decision: ${validation.reason}`);
+    return null;
+  }
+  if (validation.reason) {
+    console.warn(`LLM routing disagrees with config: ${validation.reason}`);
+  }
+  
+  // Rewritten paths and rule-based choices are specific to one request, so
+  // only plain route choices are reused
+  if (cacheKey && expectedRoute && !decision.path && !decision.rule) {
+    state.decisionCache.set(cacheKey, decision, expectedRoute.llmCache.ttl);
+  }
+  return validation.route;
+}
+
+// Function to describe a request routed in shadow mode, for the shadow log
+function shadowEntry(
+  req: IncomingMessage,
+  server: VirtualServer,
+  expectedRoute: RouteConfig,
+  startedAt: number
+): Omit<ShadowRecord, 'outcome' | 'latencyMs'> {
+  return {
+    at: new Date(startedAt).toISOString(),
+    method: req.method || 'GET',
+    url: req.url || '/',
+    server: formatServer(server),
+    location: expectedRoute.id
+  };
+}
+
+// Function to ask the engine for a route in the background and record how its
+// pick compares to the location the config serves the request from
+function shadowRoute(
+  state: ProxyState,
+  engine: RoutingEngine,
+  req: IncomingMessage,
+  server: VirtualServer,
+  expectedRoute: RouteConfig,
+  body: RequestBody,
+  report: CallReport
+): void {
+  const url = req.url || '/';
+  const startedAt = Date.now();
+  const entry = shadowEntry(req, server, expectedRoute, startedAt);
+  
+  askEngine(state, engine, req, server, expectedRoute, body, report).then(result => {
+    const latencyMs = Date.now() - startedAt;
+    if (result.status !== 'answered') {
+      shadowLog.record({ ...entry, outcome: 'timeout', latencyMs });
+      return;
     }
     
-    // Extract relevant information from the request
-    const method = req.method;
-    const url = req.url;
-    const headers = req.headers;
-    const body = req.body;
-    
-    // Build routing rules from loaded config
-    let routingRules = '';
-    routes.forEach(route => {
-      routingRules += `- If the URL starts with "${route.path}", route to ${route.target} and maintain the same path\n`;
-    });
-    
-    // Prepare the prompt for Haiku
-    const prompt = `
-You are a reverse proxy server similar to nginx. Your job is to analyze this incoming request and determine where it should be routed.
-Based on the routing rules from the nginv-proxy.conf file, you must decide which backend service should handle this request.
+    const { routeId, path, confidence, reasoning, rule } = result.value;
+    const { outcome, detail } = compareShadowDecision(result.value, server.routes, expectedRoute, url);
+    console.log(`Shadow routing: ${outcome} with ${expectedRoute.id} after ${latencyMs}ms${detail ? ` - ${detail}` : ''}`);
+    shadowLog.record({ ...entry, outcome, latencyMs, routeId, path, rule, confidence, reasoning, detail });
+  }, error => {
+    console.error(`Shadow routing error (${engine.name}):`, error);
+    shadowLog.record({ ...entry, outcome: 'error', latencyMs: Date.now() - startedAt, detail: error.message });
+  });
+}
 
-Request:
-- Method: ${method}
-- URL: ${url}
-- Headers: ${JSON.stringify(headers)}
-- Body: ${JSON.stringify(body)}
+// Function to tell why a decision was rejected, for the fallback metrics
+function rejectionReason(decision: RoutingDecision): FallbackReason {
+  return decision.path !== undefined && !isSafePath(decision.path) ? 'url_parse_failure' : 'rejected';
+}
 
-Routing Rules from nginv-proxy.conf:
-${routingRules}
+// Function to build the decision cache key of a request, scoped to its server block
+function routingCacheKey(req: IncomingMessage, server: VirtualServer, expectedRoute: RouteConfig | null): string | null {
+  return expectedRoute
+    ? decisionCacheKey(req, `${server.loc.file}:${server.loc.line}`, expectedRoute.llmCache)
+    : null;
+}
 
-Your response must be ONLY a single line containing the full target URL. For example:
-http://localhost:8001/api/users
+// Function to save a response in a cache zone, unless it mustn't be cached
+function storeResponse(store: ResponseStore, key: string, response: CachedResponse | null): void {
+  if (response) {
+    store.set(key, response).catch(error => console.error('Error writing the response cache:', error));
+  }
+}
 
-DO NOT include any explanation or additional text.
-`;
-    
-    console.log('Sending request to Anthropic API via Vercel AI SDK...');
-    
-    // Use the Vercel AI SDK
-    const { text: targetUrl } = await generateText({
-      model: anthropic('claude-3-haiku-20240307'),
-      prompt: prompt,
+// Function to fetch a fresh copy of a cached response in the background from
+// the backend the config routes the request to, while the stale copy is served
+function refreshCachedResponse(
+  state: ProxyState,
+  req: Request,
+  route: RouteConfig,
+  key: string,
+  zone: CacheZone
+): void {
+  const refreshKey = `${zone.name}|${key}`;
+  const resolved = resolveTarget(route, req.socket.remoteAddress || '', state.health.isUp);
+  if (refreshing.has(refreshKey) || !resolved) {
+    return;
+  }
+  refreshing.add(refreshKey);
+  
+  const target = new URL(resolved.target);
+  const headers: IncomingHttpHeaders = { ...req.headers, host: target.host };
+  // The stale copy is what needs replacing, so ask for the full response
+  for (const name of ['connection', 'if-none-match', 'if-modified-since', 'range']) {
+    delete headers[name];
+  }
+  const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  const proxyReq = send(`${target.origin}${target.pathname.replace(/\/$/, '')}${req.originalUrl}`, { method: 'GET', headers });
+  applyProxyRequestHeaders(proxyReq, req, route.headers);
+  applyUpstreamTimeouts(proxyReq, route.nextUpstream, () => undefined, () => undefined);
+  
+  // A refresh that never completes would have the stale copy served for good,
+  // so it is given up on and the next request starts another
+  let finished = false;
+  const deadline = setTimeout(() => proxyReq.destroy(new Error('timed out')), CACHE_REFRESH_TIMEOUT);
+  deadline.unref();
+  const done = () => {
+    if (!finished) {
+      finished = true;
+      clearTimeout(deadline);
+      refreshing.delete(refreshKey);
+    }
+  };
+  proxyReq.on('error', error => {
+    console.error(`Error refreshing the cached response for ${req.originalUrl}:`, error.message);
+    done();
+  });
+  proxyReq.on('response', proxyRes => {
+    const chunks: Buffer[] = [];
+    proxyRes.on('data', (chunk: Buffer) => chunks.push(chunk));
+    proxyRes.on('error', done);
+    proxyRes.on('close', done);
+    proxyRes.on('end', () => {
+      done();
+      applyProxyResponseHeaders(proxyRes, req, route.headers);
+      const body = Buffer.concat(chunks);
+      if (body.length <= zone.maxSize) {
+        const response = toCachedResponse(req, proxyRes.statusCode || 502, proxyRes.headers, body, route.proxyCache);
+        storeResponse(responseCache.store(zone), key, response);
+      }
     });
+  });
+  proxyReq.end();
+}
+
+// Function to serve a request from its location's proxy_cache zone when a
+// usable response is cached, and to cache the response it gets otherwise.
+// Resolves to true when the request was served from the cache.
+async function serveFromCache(state: ProxyState, req: Request, res: Response, route: RouteConfig): Promise<boolean> {
+  const config = route.proxyCache;
+  const key = responseCacheKey(req, config);
+  if (key === null) {
+    return false;
+  }
+  const zone = state.config.cacheZones.get(config.zone as string) as CacheZone;
+  const store = responseCache.store(zone);
+  
+  let cached: CachedResponse | undefined;
+  try {
+    cached = await store.get(key);
+  } catch (error) {
+    console.error('Error reading the response cache:', error);
+  }
+  if (cached && !varyMatches(cached, req)) {
+    cached = undefined;
+  }
+  
+  const status = cached ? cachedResponseStatus(cached, config) : 'MISS';
+  res.locals.cacheStatus = status;
+  if (cached && status !== 'EXPIRED') {
+    console.log(`Serving ${req.url} from proxy_cache zone "${zone.name}" (${status})`);
+    res.locals.location = route.id;
+    if (status === 'UPDATING') {
+      refreshCachedResponse(state, req, route, key, zone);
+    }
+    sendCachedResponse(req, res, cached, status);
+    return true;
+  }
+  
+  res.setHeader('X-Cache-Status', status);
+  captureResponse(req, res, {
+    maxSize: zone.maxSize,
+    replace: statusCode => {
+      if (!cached || !staleOnError(cached, statusCode, config)) {
+        return undefined;
+      }
+      console.warn(`Serving a stale cached response for ${req.url}, the backend answered ${statusCode}`);
+      res.locals.cacheStatus = 'STALE';
+      return cached;
+    },
+    complete: (statusCode, headers, body) => {
+      storeResponse(store, key, toCachedResponse(req, statusCode, headers, body, config));
+    }
+  });
+  return false;
+}
+
+// Proxy middleware with LLM decision making
+app.use(async (req: Request, res: Response, next: NextFunction) => {
+  // Skip the status, admin and metrics endpoints
+  if (req.path === '/proxy-status' || req.path.startsWith('/proxy-status/') || req.path === '/metrics') {
+    return next();
+  }
+  
+  // The whole request is served by the config it arrived under, even if a
+  // reload happens meanwhile
+  const state = activeState;
+  
+  // Pick the server block by listen port and Host header, then route only
+  // within its locations
+  const server = selectServer(state.config.servers, req.socket.localPort, req.headers.host);
+  res.locals.server = server ? formatServer(server) : '';
+  res.locals.accessLog = server?.accessLog;
+  if (!server) {
+    res.status(404).send('No matching server found');
+    return;
+  }
+  const serverRoutes = server.routes;
+  const engine = engineFor(state, server);
+  
+  const url = req.url;
+  
+  // The location the config itself picks; its settings drive caching, the
+  // latency budget, what the engine gets to see and validation
+  const expectedRoute = matchRoute(serverRoutes, url);
+  const cacheKey = routingCacheKey(req, server, expectedRoute);
+  const budget = expectedRoute ? expectedRoute.llmBudget : DEFAULT_LLM_BUDGET;
+  const llmContext = expectedRoute ? expectedRoute.llmContext : DEFAULT_LLM_CONTEXT;
+  const rateLimit = expectedRoute ? expectedRoute.rateLimit : server.rateLimit;
+  const startedAt = Date.now();
+  let speculative: SpeculativeProxy | null = null;
+  
+  const limited = !await applyRateLimits(
+    state, req, rateLimit,
+    status => res.status(status).send(STATUS_CODES[status]),
+    release => res.on('close', release)
+  );
+  if (limited) {
+    return;
+  }
+  
+  // A cached response is served without asking the engine or the backend
+  if (expectedRoute && await serveFromCache(state, req, res, expectedRoute)) {
+    return;
+  }
+  
+  // Read only as much of the body as the engine may see, or up to
+  // client_body_buffer_size so a failed attempt can be sent again; the rest
+  // stays on the socket until the request is proxied
+  let body: RequestBody;
+  try {
+    const bufferSize = expectedRoute ? expectedRoute.nextUpstream.bodyBufferSize : DEFAULT_NEXT_UPSTREAM.bodyBufferSize;
+    body = await readRequestBody(req, llmContext.mode === 'full' ? llmContext.bodyLimit : 0, bufferSize);
+  } catch (error) {
+    console.error('Error reading request body:', error);
+    res.status(400).send('Bad Request');
+    return;
+  }
+  
+  // Serve the request from the config's own route, reusing the speculative
+  // request when there is one
+  const useConfigRoute = async (winner: RoutingWinner, reason?: FallbackReason) => {
+    recordRoutingWinner(winner, startedAt, res);
+    if (reason) {
+      metrics.countFallback(reason);
+    }
+    const proxyRes = speculative && await speculative.response;
+    if (speculative && proxyRes) {
+      speculative.commit(proxyRes);
+    } else {
+      useRuleBasedFallback(state, req, res, next, url, serverRoutes, body);
+    }
+  };
+  
+  // In shadow mode the config serves the request and the engine's pick is
+  // only recorded. The engine sees the request before it is proxied. Past a
+  // spending cap there is no pick to compare, the config's rules would only
+  // agree with themselves.
+  if (expectedRoute?.llmShadow) {
+    if (engine === capEngine) {
+      shadowLog.record({ ...shadowEntry(req, server, expectedRoute, startedAt), outcome: 'capped', latencyMs: 0 });
+    } else {
+      const report = llmCallAllowed(state, req, rateLimit) && admitEngineCall(server, engine);
+      if (report) {
+        shadowRoute(state, engine, req, server, expectedRoute, body, report);
+      }
+    }
+    recordRoutingWinner('shadow', startedAt, res);
+    useRuleBasedFallback(state, req, res, next, url, serverRoutes, body);
+    return;
+  }
+  
+  try {
+    let decision = cacheKey ? state.decisionCache.get(cacheKey) : undefined;
+    let winner: RoutingWinner = 'cache';
     
-    console.log(`Routing to: ${targetUrl}`);
-    
-    try {
-      // Parse the targetUrl
-      const targetUrlObj = new URL(targetUrl);
-      const target = `${targetUrlObj.protocol}//${targetUrlObj.host}`;
-      const pathname = targetUrlObj.pathname;
+    if (decision) {
+      console.log(`Using cached routing decision for ${cacheKey}`);
+    } else if (!llmCallAllowed(state, req, rateLimit)) {
+      await useConfigRoute('fallback', 'rate_limited');
+      return;
+    } else {
+      // While the engine keeps failing, don't wait on it
+      const report = admitEngineCall(server, engine);
+      if (!report) {
+        await useConfigRoute('fallback', 'circuit_open');
+        return;
+      }
       
-      console.log(`Target host: ${target}, Path: ${pathname}`);
-      
-      // Create proxy options
-      const options: Options = {
-        target: target,
-        changeOrigin: true,
-        pathRewrite: (path) => {
-          return pathname + (targetUrlObj.search || '');
-        },
-        onProxyReq: (proxyReq, req) => {
-          console.log(`Proxying ${req.method} ${req.url} to ${target}${pathname}`);
-        },
-        onError: (err, req, res) => {
-          console.error('Proxy forwarding error:', err);
-          useRuleBasedFallback(req, res, next, url);
-        }
-      };
+      // In race mode the config's route starts right away and the engine only
+      // gets to route the request if it answers before the upstream does
+      if (budget.race && expectedRoute && RACE_METHODS.includes(req.method) && !body.truncated) {
+        speculative = startSpeculativeProxy(state, req, res, next, expectedRoute, body);
+      }
       
-      // Create and apply the proxy
-      const proxy = createProxyMiddleware(options);
-      proxy(req, res, next);
+      // Ask the engine to pick one of the server block's routes, within the budget
+      const cancel = new AbortController();
+      const answer = askEngine(state, engine, req, server, expectedRoute, body, report, cancel.signal);
+      // A failed race request leaves the engine and the budget to decide
+      const upstreamFirst = speculative
+        ? speculative.response.then<RaceResult>(proxyRes => (proxyRes ? { status: 'upstream' } : answer))
+        : answer;
+      const result = await Promise.race([answer, upstreamFirst]);
       
-    } catch (urlError) {
-      console.error('URL parsing error:', urlError);
-      console.error('Invalid URL returned by LLM:', targetUrl);
+      if (result.status === 'upstream') {
+        cancel.abort();
+        await useConfigRoute('race');
+        return;
+      }
+      if (result.status !== 'answered') {
+        await useConfigRoute('timeout', 'timeout');
+        return;
+      }
       
-      // Fall back to rule-based routing if URL parsing fails
-      useRuleBasedFallback(req, res, next, url);
+      decision = result.value;
+      winner = 'llm';
     }
     
+    // Check the choice against the location the config itself would pick
+    const route = acceptDecision(state, decision, serverRoutes, expectedRoute, winner === 'llm' ? cacheKey : null);
+    if (!route) {
+      await useConfigRoute('fallback', rejectionReason(decision));
+      return;
+    }
+    
+    // The engine agreed with the race request, so its response can be used as is
+    if (speculative && route === expectedRoute && !decision.path) {
+      await useConfigRoute(winner);
+      return;
+    }
+    speculative?.discard();
+    speculative = null;
+    
+    // Pick a live backend for the route, balancing across its pool
+    const resolved = resolveTarget(route, req.socket.remoteAddress || '', state.health.isUp);
+    if (!resolved) {
+      console.warn(`No live backend for route ${route.id}`);
+      await useConfigRoute('fallback', 'no_live_backend');
+      return;
+    }
+    recordRoutingWinner(winner, startedAt, res);
+    
+    // A failed attempt moves on to the rest of the pool, then to the
+    // config's own route
+    proxyToBackend(state, req, res, next, route, resolved, body, startRetries(expectedRoute), decision.path);
+    
   } catch (error) {
-    console.error('AI SDK error:', error);
+    console.error(`Routing engine error (${engine.name}):`, error);
     
-    // Fall back to rule-based routing if AI API fails
-    useRuleBasedFallback(req, res, next, req.url);
+    // Fall back to rule-based routing if the engine fails
+    await useConfigRoute('fallback', 'api_error');
   }
 });
 
+// Function to proxy an Upgrade request such as a WebSocket handshake. The route
+// is decided once, at handshake time, by the engine or the config; after that
+// the connection is piped both ways untouched.
+async function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+  const url = req.url || '/';
+  console.log(`${new Date().toISOString()} - ${req.method} ${url} (Upgrade: ${req.headers.upgrade})`);
+  socket.on('error', error => console.error('Upgrade socket error:', error));
+  
+  if (!isUpgradeRequest(req)) {
+    rejectUpgrade(socket, 400);
+    return;
+  }
+  const state = activeState;
+  const server = selectServer(state.config.servers, req.socket.localPort, req.headers.host);
+  if (!server) {
+    rejectUpgrade(socket, 404);
+    return;
+  }
+  const serverRoutes = server.routes;
+  const engine = engineFor(state, server);
+  const expectedRoute = matchRoute(serverRoutes, url);
+  const cacheKey = routingCacheKey(req, server, expectedRoute);
+  const rateLimit = expectedRoute ? expectedRoute.rateLimit : server.rateLimit;
+  const startedAt = Date.now();
+  
+  // The connection slot is held for as long as the connection stays open
+  const limited = !await applyRateLimits(
+    state, req, rateLimit,
+    status => rejectUpgrade(socket, status),
+    release => socket.on('close', release)
+  );
+  if (limited) {
+    return;
+  }
+  
+  let winner: RoutingWinner = 'cache';
+  let decision = cacheKey ? state.decisionCache.get(cacheKey) : undefined;
+  try {
+    if (!decision && !llmCallAllowed(state, req, rateLimit)) {
+      metrics.countFallback('rate_limited');
+      winner = 'fallback';
+    } else if (!decision) {
+      const report = admitEngineCall(server, engine);
+      if (report) {
+        // Handshakes carry no body, so there is nothing to preview
+        const result = await askEngine(state, engine, req, server, expectedRoute, await readRequestBody(req, 0), report);
+        winner = result.status === 'answered' ? 'llm' : 'timeout';
+        decision = result.status === 'answered' ? result.value : undefined;
+        if (!decision) {
+          metrics.countFallback('timeout');
+        }
+      } else {
+        metrics.countFallback('circuit_open');
+        winner = 'fallback';
+      }
+    }
+  } catch (error) {
+    console.error(`Routing engine error (${engine.name}):`, error);
+    metrics.countFallback('api_error');
+    winner = 'fallback';
+  }
+  
+  // Use the engine's route when it holds up, the config's otherwise
+  let route = decision
+    ? acceptDecision(state, decision, serverRoutes, expectedRoute, winner === 'llm' ? cacheKey : null)
+    : null;
+  // A location the engine picked that can't carry the upgrade doesn't hold up
+  // either; the config's own is judged on its own below
+  const unfit = route && route !== expectedRoute ? upgradeProblem(req, route.proxyHttpVersion, route.headers) : null;
+  if (route && unfit) {
+    console.warn(`LLM routing picked ${route.id} for a ${req.headers.upgrade} upgrade, but ${unfit}; ` +
+      `using ${expectedRoute ? expectedRoute.id : 'no location'} from the config`);
+  }
+  let resolved = route && !unfit ? resolveTarget(route, req.socket.remoteAddress || '', state.health.isUp) : null;
+  const rewrittenPath = resolved ? decision?.path : undefined;
+  if (!resolved) {
+    if (decision) {
+      metrics.countFallback(!route ? rejectionReason(decision) : unfit ? 'rejected' : 'no_live_backend');
+      winner = 'fallback';
+    }
+    route = expectedRoute;
+    resolved = route && resolveTarget(route, req.socket.remoteAddress || '', state.health.isUp);
+  }
+  recordRoutingWinner(winner, startedAt);
+  
+  if (!route) {
+    console.error('No matching route found for:', url);
+    rejectUpgrade(socket, 404);
+    return;
+  }
+  const problem = upgradeProblem(req, route.proxyHttpVersion, route.headers);
+  if (problem) {
+    console.warn(`Refusing ${req.headers.upgrade} upgrade for ${url}: ${problem}`);
+    rejectUpgrade(socket, 426);
+    return;
+  }
+  if (!resolved) {
+    console.error(`No live upstreams for ${route.target}:`, url);
+    rejectUpgrade(socket, 502);
+    return;
+  }
+  
+  const { headers } = route;
+  const targetOrigin = new URL(resolved.target).origin;
+  let opened = false;
+  if (resolved.member) {
+    socket.on('close', trackConnection(resolved.member));
+  }
+  
+  console.log(`Upgrading to ${req.headers.upgrade} via ${resolved.target}${rewrittenPath || url}`);
+  const proxy = createProxyMiddleware({
+    target: resolved.target,
+    changeOrigin: true,
+    pathRewrite: rewrittenPath ? () => rewrittenPath : undefined,
+    onProxyReqWs: (proxyReq, req) => {
+      applyProxyRequestHeaders(proxyReq, req, headers);
+    },
+    onOpen: () => {
+      opened = true;
+    },
+    onError: err => {
+      console.error('Upgrade proxy error:', err);
+      if (opened) {
+        socket.destroy();
+        return;
+      }
+      state.health.recordFailure(targetOrigin, err);
+      rejectUpgrade(socket, 502);
+    }
+  });
+  proxy.upgrade?.(req as Request, socket as Socket, head);
+}
+
+// Interface for the outcome of the latest reload, as reported by /proxy-status
+interface ReloadResult {
+  at: string;
+  trigger: string;
+  reloaded: boolean;
+  // Route diff lines, see formatRouteDiff
+  changes?: string[];
+  error?: string;
+}
+
+let lastReload: ReloadResult | undefined;
+
+// Function to reload the config, like `nginx -s reload`. The new config is
+// parsed and validated in full before anything is swapped, so a broken file
+// leaves the running config in place. Requests already in flight finish on the
+// config they started with.
+function reloadConfig(trigger: string): ReloadResult {
+  console.log(`Reloading ${options.configPath} (${trigger})...`);
+  const previous = activeState;
+  let next: ProxyState;
+  
+  try {
+    next = createProxyState(loadProxyConfig(options.configPath, options.port));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Reload failed, keeping the running config: ${message}`);
+    lastReload = { at: new Date().toISOString(), trigger, reloaded: false, error: message };
+    return lastReload;
+  }
+  
+  const changes = formatRouteDiff(diffRoutes(previous.config.servers, next.config.servers));
+  activeState = next;
+  previous.health.stop();
+  next.health.start().catch(error => console.error('Error checking backends:', error));
+  bindListeners(next.config.servers);
+  
+  if (changes.length > 0) {
+    console.log(`Config reloaded, ${changes.length} route change(s):`);
+    changes.forEach(line => console.log(`  ${line}`));
+  } else {
+    console.log('Config reloaded, no route changes');
+  }
+  lastReload = { at: new Date().toISOString(), trigger, reloaded: true, changes };
+  return lastReload;
+}
+
 // Status endpoint for debugging
 app.get('/proxy-status', (req: Request, res: Response) => {
+  const { config, engines, health, decisionCache } = activeState;
   res.json({
     status: 'running',
     sdk: 'Vercel AI SDK with @ai-sdk/anthropic',
-    config: configPath,
-    routes: routes.map(route => `${route.path} => ${route.target}`)
+    config: options.configPath,
+    servers: config.servers.map(server => ({
+      server: formatServer(server),
+      engine: engines.get(server)?.name,
+      circuitBreaker: circuitBreakerFor(server, engines.get(server) as RoutingEngine)?.snapshot(),
+      routes: server.routes.map(formatRoute)
+    })),
+    routes: config.routes.map(formatRoute),
+    health: health.snapshot(),
+    decisionCache: decisionCache.stats(),
+    routing: routingStats.snapshot(),
+    spending: spending.report(),
+    proxyCache: [...config.cacheZones.values()].map(zone => ({
+      zone: zone.name,
+      path: zone.path || 'memory',
+      ...responseCache.store(zone).stats()
+    })),
+    lastReload
   });
 });
 
-// Interface for backend services
-interface BackendService {
-  url: string;
-  name: string;
-}
+// Prometheus metrics
+app.get('/metrics', (req: Request, res: Response) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
+// How often the engine agrees with the config in shadow mode, per location
+app.get('/proxy-status/shadow', (req: Request, res: Response) => {
+  res.json(shadowLog.report());
+});
 
-// Function to check if backends are reachable
-const checkBackends = async (): Promise<void> => {
-  // Extract unique backend targets from the routes
-  const backendUrls = [...new Set(routes.map(route => route.target))];
-  const backends: BackendService[] = backendUrls.map(url => ({ url, name: url }));
+// Admin endpoint to reload the config, authenticated with NGINCLAUDE_ADMIN_TOKEN
+app.post('/proxy-status/reload', (req: Request, res: Response) => {
+  if (!ADMIN_TOKEN) {
+    res.status(403).json({ error: 'Admin endpoints are disabled, set NGINCLAUDE_ADMIN_TOKEN to enable them' });
+    return;
+  }
+  if (!isAdminAuthorized(req.headers.authorization, ADMIN_TOKEN)) {
+    res.status(401).set('WWW-Authenticate', 'Bearer').json({ error: 'Unauthorized' });
+    return;
+  }
   
-  console.log('Checking backend services from config...');
+  const result = reloadConfig('admin request');
+  res.status(result.reloaded ? 200 : 422).json(result);
+});
+
+// Function to start a listener for every address named by a `listen` directive
+// and close the ones that are no longer named. Connections already open on a
+// closed listener are served until they end. `onListening` is called once
+// every new listener is up.
+function bindListeners(servers: VirtualServer[], onListening?: () => void): void {
+  const addresses = listenAddresses(servers);
+  const addressKey = ({ host, port }: { host?: string; port: number }) => `${host ? `${host}:` : 'port '}${port}`;
+  const wanted = new Set(addresses.map(addressKey));
   
-  for (const backend of backends) {
-    try {
-      await new Promise<void>((resolve) => {
-        const req = http.get(backend.url, (res) => {
-          console.log(`✅ ${backend.name} is reachable (${res.statusCode})`);
-          resolve();
-        });
-        
-        req.on('error', (err) => {
-          console.log(`❌ ${backend.name} is not reachable: ${err.message}`);
-          resolve();
-        });
-        
-        req.setTimeout(1000, () => {
-          req.destroy();
-          console.log(`❌ ${backend.name} timed out`);
-          resolve();
-        });
-      });
-    } catch (e) {
-      console.error(`Error checking ${backend.name}:`, e);
+  for (const [key, listener] of listeners) {
+    if (!wanted.has(key)) {
+      console.log(`No longer listening on ${key}`);
+      listener.close();
+      listeners.delete(key);
     }
   }
+  
+  const added = addresses.filter(address => !listeners.has(addressKey(address)));
+  let pending = added.length;
+  if (pending === 0) {
+    onListening?.();
+  }
+  added.forEach(({ host, port }) => {
+    const key = addressKey({ host, port });
+    const listening = () => {
+      console.log(`Vercel AI SDK proxy server running on ${key}`);
+      pending--;
+      if (pending === 0) {
+        onListening?.();
+      }
+    };
+    
+    const listener = host ? app.listen(port, host, listening) : app.listen(port, listening);
+    listeners.set(key, listener);
+    listener.on('error', error => {
+      console.error(`Could not listen on ${key}:`, error.message);
+      listeners.delete(key);
+      if (listeners.size === 0) {
+        process.exit(1);
+      }
+    });
+    listener.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      handleUpgrade(req, socket, head).catch(error => {
+        console.error('Upgrade error:', error);
+        rejectUpgrade(socket, 500);
+      });
+    });
+  });
+}
+
+// Reload on SIGHUP, the signal `nginx -s reload` sends
+const reloadOnSignal = () => {
+  reloadConfig('SIGHUP');
 };
 
-// Start the server
-app.listen(PORT, () => {
-  console.log(`Vercel AI SDK proxy server running on port ${PORT}`);
-  checkBackends();
+// Function to load the config and start serving it: listeners for every
+// `listen` port, health checks, and reloads on SIGHUP or when the file changes.
+// Exits on a broken config rather than serving with no routes. Resolves once
+// every listener is up.
+export function startProxy(proxyOptions: Partial<ProxyOptions> = {}): Promise<void> {
+  options = { ...options, ...proxyOptions };
+  const { configPath, port } = options;
+  let config: ProxyConfig;
+  
+  try {
+    config = loadProxyConfig(configPath, port);
+  } catch (error) {
+    if (error instanceof NginxConfigError) {
+      console.error(`Error parsing Nginx config: ${error.message}`);
+    } else {
+      console.error('Error parsing Nginx config:', error);
+    }
+    process.exit(1);
+  }
+  activeState = createProxyState(config);
+  
+  console.log('Loaded routes from config:');
+  config.servers.forEach(server => {
+    console.log(`server ${formatServer(server)}`);
+    server.routes.forEach(route => {
+      console.log(`  ${formatRoute(route)}`);
+    });
+  });
+  
+  process.on('SIGHUP', reloadOnSignal);
+  
+  // Reload when the config file changes. Polling the file's mtime also catches
+  // editors that save by replacing the file.
+  fs.watchFile(configPath, { interval: 1000 }, (current, previous) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      reloadConfig('file changed');
+    }
+  });
   
-  console.log('\nIMPORTANT: Make sure to run the mock backends first with:');
-  console.log('node tests/mock-backends.js');
-});
\ No newline at end of file
+  // Start health checks once the listeners are up
+  return new Promise(resolve => {
+    bindListeners(config.servers, () => {
+      activeState.health.start().catch(error => console.error('Error checking backends:', error));
+      
+      console.log('\nIMPORTANT: Make sure to run the mock backends first with:');
+      console.log('node tests/mock-backends.js');
+      resolve();
+    });
+  });
+}
+
+// Function to stop serving: closes the listeners, including connections still
+// open on them, and stops health checks and reloads. Resolves once every
+// listener is closed.
+export async function stopProxy(): Promise<void> {
+  process.removeListener('SIGHUP', reloadOnSignal);
+  fs.unwatchFile(options.configPath);
+  activeState?.health.stop();
+  const closing = [...listeners.values()].map(listener => new Promise(resolve => {
+    listener.close(resolve);
+    listener.closeAllConnections();
+  }));
+  listeners.clear();
+  await Promise.all(closing);
+}
+
+// Serve the default config when run directly, e.g. with `npm start`
+if (require.main === module) {
+  startProxy();
+}
@@ -0,0 +1,140 @@
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
+import { parseConfig } from '../src/config/parser';
+import { buildServers } from '../src/routing/virtual-hosts';
+import { AccessLogEntry, formatLogLine, formatTimeLocal } from '../src/proxy/access-log';
+
+const [api, quiet, plain] = buildServers(parseConfig(`
+  http {
+    log_format upstreams '$remote_addr "$request" $status '
+                         'upstream=$upstream_addr rt=$request_time urt=$upstream_response_time via=$routing_source';
+    access_log /var/log/nginclaude/access.log;
+
+    server {
+      server_name api.example.com;
+      access_log stdout upstreams;
+      access_log /var/log/nginclaude/api.json json;
+      location /api { proxy_pass http://localhost:8001; }
+    }
+    server {
+      server_name quiet.example.com;
+      access_log off;
+    }
+    server {
+      server_name plain.example.com;
+    }
+  }
+`, 'test.conf'), 3000);
+
+const request = (headers: Record<string, string> = {}): IncomingMessage => {
+  const req = new IncomingMessage(new Socket());
+  req.method = 'GET';
+  req.url = '/api/users?page=2';
+  req.httpVersion = '1.1';
+  req.headers = { host: 'api.example.com', ...headers };
+  Object.defineProperty(req.socket, 'remoteAddress', { value: '10.0.0.7' });
+  return req;
+};
+
+const entry = (overrides: Partial<AccessLogEntry> = {}): AccessLogEntry => ({
+  req: request({ 'user-agent': 'curl/8.0', referer: 'https://example.com/' }),
+  statusCode: 200,
+  bodyBytes: 512,
+  startedAt: new Date('2026-10-19T12:34:56.789Z'),
+  requestTime: 0.1234,
+  upstreams: [{ origin: 'http://localhost:8001', startedAt: 1000, endedAt: 1098 }],
+  routingSource: 'llm',
+  location: '/api',
+  ...overrides
+});
+
+describe('access log', () => {
+  test('access_log is set per server and inherited from http', () => {
+    expect(api.accessLog.map(({ path, format }) => [path, format.name]))
+      .toEqual([['stdout', 'upstreams'], ['/var/log/nginclaude/api.json', 'json']]);
+    expect(quiet.accessLog).toEqual([]);
+    expect(plain.accessLog.map(({ path, format }) => [path, format.name]))
+      .toEqual([['/var/log/nginclaude/access.log', 'combined']]);
+
+    // Relative to the config file, not the working directory
+    const [relative] = buildServers(parseConfig('http { server { access_log logs/access.log; } }', '/etc/nginclaude/nginclaude.conf'), 3000);
+    expect(relative.accessLog.map(({ path }) => path)).toEqual(['/etc/nginclaude/logs/access.log']);
+  });
+
+  test('writes the combined format like nginx, with "-" for empty values', () => {
+    const line = formatLogLine(plain.accessLog[0].format, entry({ req: request() }));
+    expect(line).toBe(`10.0.0.7 - - [${formatTimeLocal(new Date('2026-10-19T12:34:56.789Z'))}] ` +
+      '"GET /api/users?page=2 HTTP/1.1" 200 512 "-" "-"');
+  });
+
+  test('writes upstream addresses and timings of every backend tried', () => {
+    const format = api.accessLog[0].format;
+    expect(formatLogLine(format, entry())).toBe(
+      '10.0.0.7 "GET /api/users?page=2 HTTP/1.1" 200 upstream=localhost:8001 rt=0.123 urt=0.098 via=llm'
+    );
+    expect(formatLogLine(format, entry({
+      statusCode: 502,
+      routingSource: 'fallback',
+      upstreams: [
+        { origin: 'http://localhost:8001', startedAt: 1000, endedAt: 1005 },
+        { origin: 'http://localhost:8002', startedAt: 1005 }
+      ]
+    }))).toBe(
+      '10.0.0.7 "GET /api/users?page=2 HTTP/1.1" 502 upstream=localhost:8001, localhost:8002 ' +
+      'rt=0.123 urt=0.005, 0.000 via=fallback'
+    );
+    expect(formatLogLine(format, entry({ upstreams: [], routingSource: undefined })))
+      .toBe('10.0.0.7 "GET /api/users?page=2 HTTP/1.1" 200 upstream=- rt=0.123 urt=- via=-');
+  });
+
+  test('writes JSON lines', () => {
+    const line = JSON.parse(formatLogLine(api.accessLog[1].format, entry({
+      req: request({ 'user-agent': 'say "hi"\n' })
+    })));
+    expect(line).toEqual({
+      time: '2026-10-19T12:34:56.789Z',
+      remote_addr: '10.0.0.7',
+      host: 'api.example.com',
+      request: 'GET /api/users?page=2 HTTP/1.1',
+      status: 200,
+      body_bytes_sent: 512,
+      request_time: 0.123,
+      upstream_addr: 'localhost:8001',
+      upstream_response_time: '0.098',
+      routing_source: 'llm',
+      location: '/api',
+      http_referer: '-',
+      http_user_agent: 'say "hi"\n'
+    });
+  });
+
+  test('escapes quotes and control characters', () => {
+    const [payload] = buildServers(parseConfig(`
+      http {
+        log_format payload escape=json '{"ua":"$http_user_agent"}';
+        server { access_log stdout payload; }
+      }
+    `, 'test.conf'), 3000);
+    expect(formatLogLine(payload.accessLog[0].format, entry({ req: request({ 'user-agent': 'a"b\\c' }) })))
+      .toBe('{"ua":"a\\"b\\\\c"}');
+    expect(formatLogLine(plain.accessLog[0].format, entry({ req: request({ 'user-agent': 'a"b\u0001' }) })))
+      .toMatch(/"a\\x22b\\x01"$/);
+  });
+
+  test('rejects bad log_format and access_log directives', () => {
+    const build = (config: string) => buildServers(parseConfig(config, 'test.conf'), 3000);
+    expect(() => build('http { log_format main "$nope"; server {} }'))
+      .toThrow('unknown "nope" variable in test.conf:1:8');
+    expect(() => build('http { log_format main "$constructor"; server {} }'))
+      .toThrow('unknown "constructor" variable in test.conf:1:8');
+    expect(() => build('http { log_format combined "$status"; server {} }'))
+      .toThrow('duplicate "log_format" name "combined" in test.conf:1:8');
+    expect(() => build('http { log_format main escape=xml "$status"; server {} }'))
+      .toThrow('unknown log format escaping "xml" in test.conf:1:8');
+    expect(() => build('http { server { access_log stdout main; } }'))
+      .toThrow('unknown log format "main" in test.conf:1:17');
+    expect(() => build('http { server { access_log off; access_log stdout; } }'))
+      .toThrow('invalid parameter "off" in "access_log" directive in test.conf:1:17');
+  });
+});
+
@@ -0,0 +1,91 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { buildUpstreams } from '../src/upstream/upstreams';
+import { selectMember, trackConnection } from '../src/upstream/balancer';
+import { resolveTarget } from '../src/routing/routes';
+
+const config = parseConfig(`
+  http {
+    upstream weighted {
+      server a:8001 weight=3;
+      server b:8001;
+      server c:8001 backup;
+    }
+    upstream least {
+      least_conn;
+      server a:8001;
+      server b:8001;
+    }
+    upstream sticky {
+      ip_hash;
+      server a:8001;
+      server b:8001;
+      server c:8001;
+    }
+    server {
+      location /api { proxy_pass http://weighted/v1; }
+      location / { proxy_pass http://localhost:8002; }
+    }
+  }
+`, 'test.conf');
+
+const pick = (name: string, client = '10.0.0.1'): string | undefined => {
+  const pool = buildUpstreams(config.http.directives).get(name);
+  return pool ? selectMember(pool, client)?.address : undefined;
+};
+
+describe('upstream pools', () => {
+  test('spreads weighted round-robin picks smoothly', () => {
+    const pool = buildUpstreams(config.http.directives).get('weighted')!;
+    const picks = Array.from({ length: 8 }, () => selectMember(pool, '')?.address);
+
+    expect(picks).toEqual(['a:8001', 'a:8001', 'b:8001', 'a:8001', 'a:8001', 'a:8001', 'b:8001', 'a:8001']);
+  });
+
+  test('uses backup members only when all primaries are down', () => {
+    const pool = buildUpstreams(config.http.directives).get('weighted')!;
+    pool.members[0].down = true;
+    expect(selectMember(pool, '')?.address).toBe('b:8001');
+
+    pool.members[1].down = true;
+    expect(selectMember(pool, '')?.address).toBe('c:8001');
+
+    pool.members[2].down = true;
+    expect(selectMember(pool, '')).toBeNull();
+  });
+
+  test('prefers the member with the fewest active connections', () => {
+    const pool = buildUpstreams(config.http.directives).get('least')!;
+    const release = trackConnection(pool.members[0]);
+
+    expect(selectMember(pool, '')?.address).toBe('b:8001');
+    expect(selectMember(pool, '')?.address).toBe('b:8001');
+
+    release();
+    release();
+    expect(pool.members[0].activeConnections).toBe(0);
+  });
+
+  test('keeps clients of the same /24 on one member', () => {
+    expect(pick('sticky', '192.168.1.10')).toBe(pick('sticky', '192.168.1.200'));
+    const clients = ['10.0.1.1', '10.0.2.1', '10.0.3.1', '10.0.4.1', '10.0.5.1', '10.0.6.1'];
+    expect(new Set(clients.map(client => pick('sticky', client))).size).toBeGreaterThan(1);
+  });
+
+  test('resolves proxy_pass to a pool member and keeps the URI', () => {
+    const [apiRoute, webRoute] = buildProxyConfig(config, 3000).routes;
+
+    expect(apiRoute.upstream?.name).toBe('weighted');
+    expect(resolveTarget(apiRoute, '')?.target).toBe('http://a:8001/v1');
+    expect(resolveTarget(webRoute, '')).toEqual({ target: 'http://localhost:8002' });
+  });
+
+  test('rejects invalid upstream blocks', () => {
+    expect(() => buildUpstreams(parseConfig('upstream empty { }', 'bad.conf').http.directives))
+      .toThrow('no servers are inside upstream "empty" in bad.conf:1:1');
+    expect(() => buildUpstreams(parseConfig('upstream p {\n  server a weight=0;\n}', 'bad.conf').http.directives))
+      .toThrow('invalid parameter "weight=0" in bad.conf:2:3');
+    expect(() => buildUpstreams(parseConfig('upstream p {\n  server a;\n  toString;\n}', 'bad.conf').http.directives))
+      .toThrow('unknown directive "toString" in upstream block in bad.conf:3:3');
+  });
+});
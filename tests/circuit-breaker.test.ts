@@ -0,0 +1,132 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { CircuitTransition, DEFAULT_CIRCUIT_BREAKER, createCircuitBreakers } from '../src/routing/circuit-breaker';
+
+const config = buildProxyConfig(parseConfig(`
+  http {
+    llm_circuit_breaker failures=3 error_rate=50% window=10s min_calls=4 open=5s probe=50% probes=2;
+
+    server {
+      listen 8080;
+      location / { proxy_pass http://localhost:8001; }
+    }
+    server {
+      listen 8081;
+      llm_circuit_breaker off;
+      location / { proxy_pass http://localhost:8001; }
+    }
+  }
+`, 'test.conf'), 3000);
+const [guarded, unguarded] = config.servers;
+const settings = guarded.engine.circuitBreaker;
+
+describe('circuit breaker', () => {
+  test('reads llm_circuit_breaker per server block', () => {
+    expect(settings).toEqual({
+      enabled: true,
+      failures: 3,
+      errorRate: 0.5,
+      window: 10000,
+      minCalls: 4,
+      openFor: 5000,
+      probeShare: 0.5,
+      probes: 2
+    });
+    expect(unguarded.engine.circuitBreaker.enabled).toBe(false);
+
+    const build = (http: string) => buildProxyConfig(parseConfig(`http { ${http} }`, 'test.conf'), 3000);
+    expect(() => build('llm_circuit_breaker;'))
+      .toThrow('invalid number of arguments in "llm_circuit_breaker" directive in test.conf:1:8');
+    expect(() => build('llm_circuit_breaker error_rate=150%;'))
+      .toThrow('invalid "error_rate" value "150%" in "llm_circuit_breaker" directive in test.conf:1:8');
+    expect(() => build('llm_circuit_breaker failures=0;'))
+      .toThrow('invalid "failures" value "0" in "llm_circuit_breaker" directive in test.conf:1:8');
+    expect(() => build('llm_circuit_breaker half_open=10s;'))
+      .toThrow('invalid parameter "half_open=10s" in "llm_circuit_breaker" directive in test.conf:1:8');
+  });
+
+  test('opens after consecutive failures and stops letting calls through', () => {
+    const transitions: [string, CircuitTransition][] = [];
+    const breaker = createCircuitBreakers((engine, transition) => transitions.push([engine, transition]), () => 0)
+      .breaker('llm mock/haiku', { ...settings, minCalls: 10 });
+
+    breaker.admit()?.('failure');
+    breaker.admit()?.('success');
+    breaker.admit()?.('failure');
+    breaker.admit()?.('failure');
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2, calls: 4, failures: 3 });
+
+    breaker.admit()?.('failure');
+    expect(breaker.admit()).toBeNull();
+    expect(transitions).toEqual([
+      ['llm mock/haiku', { at: '1970-01-01T00:00:00.000Z', from: 'closed', to: 'open', reason: '3 calls failed in a row' }]
+    ]);
+  });
+
+  test('opens on the error rate once the window has enough calls', () => {
+    let now = 0;
+    const breaker = createCircuitBreakers(undefined, () => now).breaker('llm mock/haiku', settings);
+    const outcomes = ['failure', 'success', 'failure', 'success'] as const;
+
+    // Calls that fall out of the window no longer count
+    outcomes.slice(0, 3).forEach(outcome => breaker.admit()?.(outcome));
+    now = 10000;
+    breaker.admit()?.('success');
+    breaker.admit()?.('failure');
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', calls: 2, failures: 1 });
+
+    outcomes.forEach(outcome => breaker.admit()?.(outcome));
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      transitions: [{ from: 'closed', to: 'open', reason: '3 of 5 calls failed within 10s' }]
+    });
+  });
+
+  test('probes with a share of the calls while half-open', () => {
+    let now = 0;
+    let dice = 0.9;
+    const breaker = createCircuitBreakers(undefined, () => now, () => dice).breaker('llm mock/haiku', settings);
+    [1, 2, 3].forEach(() => breaker.admit()?.('failure'));
+
+    now = 4999;
+    expect(breaker.snapshot().state).toBe('open');
+    now = 5000;
+    expect(breaker.admit()).toBeNull();
+    expect(breaker.snapshot().state).toBe('half-open');
+
+    // At most `probes` at a time
+    dice = 0.1;
+    const [first, second] = [breaker.admit(), breaker.admit()];
+    expect(breaker.admit()).toBeNull();
+
+    // A failed probe opens the circuit again, and late reports don't count
+    second?.('failure');
+    first?.('success');
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', since: '1970-01-01T00:00:05.000Z' });
+
+    now = 10000;
+    const probes = [breaker.admit(), breaker.admit()];
+    probes[0]?.('ignored');
+    breaker.admit()?.('success');
+    expect(breaker.snapshot().state).toBe('half-open');
+    probes[1]?.('success');
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, calls: 0 });
+    expect(breaker.snapshot().transitions.map(({ to, reason }) => `${to}: ${reason}`)).toEqual([
+      'open: 3 calls failed in a row',
+      'half-open: open for 5s',
+      'open: a probe failed',
+      'half-open: open for 5s',
+      'closed: 2 probes succeeded'
+    ]);
+  });
+
+  test('keeps breakers across lookups unless their settings change', () => {
+    const breakers = createCircuitBreakers(undefined, () => 0);
+    const breaker = breakers.breaker('llm mock/haiku', settings);
+    [1, 2, 3].forEach(() => breaker.admit()?.('failure'));
+
+    expect(breakers.breaker('llm mock/haiku', { ...settings }).snapshot().state).toBe('open');
+    expect(breakers.breaker('llm mock/haiku', DEFAULT_CIRCUIT_BREAKER).snapshot().state).toBe('closed');
+    expect(breakers.breaker('llm anthropic/haiku', settings).snapshot().state).toBe('closed');
+  });
+});
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../src/cli';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nginclaude-cli-'));
+
+// Function to write a config file for one test
+const writeConfig = (name: string, text: string): string => {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, text);
+  return file;
+};
+
+// Function to run the CLI and collect what it prints
+async function run(...args: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(args, { log: line => out.push(line), error: line => err.push(line) });
+  return { code, out: out.join('\n'), err: err.join('\n') };
+}
+
+let configs = 0;
+const mockConfig = (reply: string) => writeConfig(`mock-${++configs}.conf`, `
+  http {
+    server {
+      listen 8080;
+      server_name example.com;
+      llm_provider mock;
+      llm_mock_reply '${reply}';
+      location /api {
+        proxy_pass http://localhost:8001;
+        llm_disagreement log;
+      }
+      location /admin { proxy_pass http://localhost:8003; }
+      location / { proxy_pass http://localhost:8002; }
+    }
+  }
+`);
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('nginclaude test', () => {
+  test('reports a valid config like nginx -t', async () => {
+    const config = mockConfig('{"routeId": "/api"}');
+    const { code, out } = await run('test', '--config', config);
+
+    expect(code).toBe(0);
+    expect(out).toBe([
+      `nginclaude: the configuration file ${config} syntax is ok`,
+      `nginclaude: configuration file ${config} test is successful`
+    ].join('\n'));
+  });
+
+  test('reports the first error with its position', async () => {
+    const config = writeConfig('broken.conf', 'http {\n  server {\n    location /api { proxy_pass; }\n  }\n}\n');
+    const { code, err } = await run('test', '-c', config);
+
+    expect(code).toBe(1);
+    expect(err).toBe([
+      `nginclaude: [emerg] invalid number of arguments in "proxy_pass" directive in ${config}:3:21`,
+      `nginclaude: configuration file ${config} test failed`
+    ].join('\n'));
+  });
+});
+
+describe('nginclaude routes', () => {
+  test('lists every server block with its engine and locations', async () => {
+    const config = mockConfig('{"routeId": "/api"}');
+    const { code, out } = await run('routes', '-c', config);
+
+    expect(code).toBe(0);
+    expect(out.split('\n')).toEqual([
+      'server example.com (listen 8080), engine llm mock/claude-3-haiku-20240307',
+      `  /api => http://localhost:8001  (${config}:8)`,
+      `  /admin => http://localhost:8003  (${config}:12)`,
+      `  / => http://localhost:8002  (${config}:13)`
+    ]);
+  });
+});
+
+describe('nginclaude explain', () => {
+  test('shows the config match and the engine pick', async () => {
+    const config = mockConfig('{"routeId": "/api", "confidence": 0.9, "reasoning": "API call"}');
+    const { code, out } = await run(
+      'explain', 'get', 'http://example.com:8080/api/users?page=2', '-c', config, '-H', 'Authorization: Bearer secret'
+    );
+
+    expect(code).toBe(0);
+    expect(out.split('\n')).toEqual([
+      'server:   example.com (listen 8080)',
+      `config:   /api => http://localhost:8001 (${config}:8)`,
+      'engine:   llm mock/claude-3-haiku-20240307',
+      'sees:     {"method":"GET","url":"/api/users?page=%5BREDACTED%5D","headers":{"host":"example.com:8080"}}',
+      'picks:    /api (confidence 0.9) - API call',
+      'result:   GET /api/users?page=2 => /api => http://localhost:8001'
+    ]);
+  });
+
+  test('shows when the engine disagrees with the config', async () => {
+    const config = mockConfig('{"routeId": "/admin", "path": "/admin/users"}');
+    const { out } = await run('explain', 'GET', '/api/users', '-c', config);
+
+    expect(out).toContain('picks:    /admin with path /admin/users\n' +
+      '          disagrees with the config, allowed by llm_disagreement log: chose /admin => http://localhost:8003' +
+      ' but the config matches /api => http://localhost:8001');
+    expect(out).toContain('result:   GET /admin/users => /admin => http://localhost:8003');
+  });
+
+  test('falls back to the config when the engine fails', async () => {
+    const config = mockConfig('malformed');
+    const { code, out } = await run('explain', 'GET', '/admin', '-c', config);
+
+    expect(code).toBe(0);
+    expect(out).toMatch(/picks: {4}nothing, the engine failed: /);
+    expect(out).toContain('result:   GET /admin => /admin => http://localhost:8003');
+  });
+
+  test('needs a method and a URL', async () => {
+    const { code, err } = await run('explain', 'GET');
+    expect(code).toBe(1);
+    expect(err).toContain('explain needs a method and a URL');
+  });
+});
+
+test('rejects unknown commands and options', async () => {
+  expect((await run('reload')).err).toContain('unknown command "reload"');
+  expect((await run('routes', '--verbose')).code).toBe(1);
+  expect((await run('--help')).code).toBe(0);
+});
@@ -0,0 +1,71 @@
+import path from 'path';
+import { loadConfig, parseConfig } from '../src/config/parser';
+import { NginxConfigError } from '../src/config/errors';
+import { buildProxyConfig } from '../src/proxy-config';
+
+describe('nginx config parser', () => {
+  test('parses the bundled config into http, server and location blocks', () => {
+    const ast = loadConfig(path.join(__dirname, '..', 'nginclaude-proxy.conf'));
+
+    expect(ast.http.servers).toHaveLength(1);
+    const [server] = ast.http.servers;
+    expect(server.directives.map(d => d.name)).toEqual(['listen', 'server_name']);
+    expect(server.locations.map(l => l.path)).toEqual(['/api', '/admin', '/static', '/']);
+    expect(server.locations[0].loc.line).toBe(7);
+    expect(server.locations[0].directives[1].args).toEqual(['Host', '$host']);
+  });
+
+  test('treats top-level server blocks as an implicit http block', () => {
+    const ast = loadConfig(path.join(__dirname, '..', 'benchmark-nginx.conf'));
+
+    expect(ast.http.servers).toHaveLength(1);
+    expect(ast.http.servers[0].locations[0]).toMatchObject({ modifier: '=', path: '/proxy-status' });
+  });
+
+  test('ignores braces in comments and keeps quoted strings and variables intact', () => {
+    const ast = parseConfig(`
+      server { # a comment with } braces {
+        location ~* "\\.(png|jpg)$" {
+          return 200 '{"ok": true}';
+          set $x \${host}-suffix;
+        }
+      }
+    `, 'inline.conf');
+
+    const location = ast.http.servers[0].locations[0];
+    expect(location).toMatchObject({ modifier: '~*', path: '\\.(png|jpg)$' });
+    expect(location.directives[0].args).toEqual(['200', '{"ok": true}']);
+    expect(location.directives[1].args).toEqual(['$x', '${host}-suffix']);
+  });
+
+  test('supports nested locations', () => {
+    const ast = parseConfig(`
+      server {
+        location /api {
+          proxy_pass http://localhost:8001;
+          location /api/v2 { proxy_pass http://localhost:8005; }
+        }
+      }
+    `, 'inline.conf');
+
+    expect(buildProxyConfig(ast, 3000).routes.map(route => route.path)).toEqual(['/api', '/api/v2']);
+  });
+
+  test.each([
+    ['server {\n  location /api {\n    proxy_pass http://a;\n}', 'unexpected end of file, expecting "}" in bad.conf:1:8'],
+    ['server {\n  listen 80\n}', 'directive "listen" is not terminated by ";" in bad.conf:2:3'],
+    ['server {\n  location >> /x { }\n}', 'invalid location modifier ">>" in bad.conf:2:3'],
+    ['location / { }', '"location" directive is not allowed here in bad.conf:1:1'],
+    ['}', 'unexpected "}" in bad.conf:1:1'],
+    ['server {\n  return "oops;\n}', 'unterminated quoted string in bad.conf:2:10']
+  ])('reports the position of syntax errors (%#)', (source, message) => {
+    expect(() => parseConfig(source, 'bad.conf')).toThrow(NginxConfigError);
+    expect(() => parseConfig(source, 'bad.conf')).toThrow(message);
+  });
+
+  test('reports invalid proxy_pass arguments with their line', () => {
+    const ast = parseConfig('server {\n  location / {\n    proxy_pass;\n  }\n}', 'bad.conf');
+
+    expect(() => buildProxyConfig(ast, 3000)).toThrow('invalid number of arguments in "proxy_pass" directive in bad.conf:3:5');
+  });
+});
@@ -0,0 +1,96 @@
+import { IncomingMessage } from 'http';
+import { parseConfig } from '../src/config/parser';
+import { DEFAULT_LLM_CACHE, createDecisionCache, decisionCacheKey } from '../src/routing/decision-cache';
+import { buildProxyConfig } from '../src/proxy-config';
+
+const request = (method: string, url: string, headers: Record<string, string> = {}) =>
+  ({ method, url, headers, socket: {} } as unknown as IncomingMessage);
+
+describe('decision cache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('counts hits and misses', () => {
+    const cache = createDecisionCache(10);
+    expect(cache.get('a')).toBeUndefined();
+    cache.set('a', { routeId: '/api' }, 1000);
+    expect(cache.get('a')).toEqual({ routeId: '/api' });
+
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, hitRate: 0.5, size: 1, maxSize: 10 });
+  });
+
+  test('evicts the least recently used entry', () => {
+    const cache = createDecisionCache(2);
+    cache.set('a', { routeId: 'a' }, 1000);
+    cache.set('b', { routeId: 'b' }, 1000);
+    cache.get('a');
+    cache.set('c', { routeId: 'c' }, 1000);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual({ routeId: 'a' });
+    expect(cache.get('c')).toEqual({ routeId: 'c' });
+  });
+
+  test('expires entries after their TTL', () => {
+    jest.useFakeTimers();
+    const cache = createDecisionCache();
+    cache.set('a', { routeId: 'a' }, 1000);
+
+    jest.advanceTimersByTime(999);
+    expect(cache.get('a')).toBeDefined();
+    jest.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats().size).toBe(0);
+  });
+
+  test('keys requests by method and URI template', () => {
+    expect(decisionCacheKey(request('GET', '/users/42?x=1'), 's', DEFAULT_LLM_CACHE)).toBe('s|GET /users/:id');
+    expect(decisionCacheKey(request('GET', '/orders/3f2b9c1e-8a4d-4c2e-9b1a-7d6e5f4c3b2a'), 's', DEFAULT_LLM_CACHE))
+      .toBe('s|GET /orders/:id');
+    expect(decisionCacheKey(request('POST', '/users'), 's', DEFAULT_LLM_CACHE)).toBeNull();
+    expect(decisionCacheKey(request('GET', '/users'), 's', { ...DEFAULT_LLM_CACHE, ttl: 0 })).toBeNull();
+  });
+
+  test('reads llm_cache directives per location', () => {
+    const [api, admin] = buildProxyConfig(parseConfig(`
+      http {
+        llm_cache 5m;
+        llm_cache_key "$request_method $uri_template $http_x_tenant";
+        server {
+          location /api {
+            proxy_pass http://localhost:8001;
+            llm_cache_methods get post;
+          }
+          location /admin {
+            proxy_pass http://localhost:8002;
+            llm_cache off;
+          }
+        }
+      }
+    `, 'test.conf'), 3000).routes;
+
+    expect(api.llmCache).toEqual({
+      ttl: 300000,
+      key: '$request_method $uri_template $http_x_tenant',
+      methods: ['GET', 'POST']
+    });
+    expect(admin.llmCache.ttl).toBe(0);
+    expect(decisionCacheKey(request('POST', '/api/7', { 'x-tenant': 'acme' }), 's', api.llmCache))
+      .toBe('s|POST /api/:id acme');
+  });
+
+  test('reads llm_cache_max_size from the http context', () => {
+    const config = buildProxyConfig(parseConfig('llm_cache_max_size 50; server { location / { proxy_pass http://a; } }', 'test.conf'), 3000);
+    expect(config.llmCacheMaxSize).toBe(50);
+  });
+
+  test('rejects invalid directives', () => {
+    expect(() => buildProxyConfig(parseConfig('llm_cache soon;', 'test.conf'), 3000))
+      .toThrow('invalid value in "llm_cache" directive, it must be "off" or a time in test.conf:1:1');
+    expect(() => buildProxyConfig(parseConfig('server { llm_cache_key $nope; }', 'test.conf'), 3000))
+      .toThrow('unknown "nope" variable in test.conf:1:10');
+    expect(() => buildProxyConfig(parseConfig('llm_cache_max_size 0;', 'test.conf'), 3000))
+      .toThrow('invalid value in "llm_cache_max_size" directive in test.conf:1:1');
+  });
+});
@@ -0,0 +1,94 @@
+import { ClientRequest, IncomingMessage } from 'http';
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { applyProxyRequestHeaders, applyProxyResponseHeaders } from '../src/proxy/headers';
+import { interpolate, isKnownVariable } from '../src/proxy/variables';
+
+const fakeRequest = (url: string, headers: Record<string, string>): IncomingMessage =>
+  ({
+    url,
+    method: 'GET',
+    headers,
+    socket: { remoteAddress: '10.0.0.7', remotePort: 51000, localPort: 3000 }
+  }) as unknown as IncomingMessage;
+
+describe('nginx variables', () => {
+  const req = fakeRequest('/api/users?page=2', {
+    host: 'Example.com:3000',
+    'user-agent': 'jest',
+    'x-forwarded-for': '203.0.113.1'
+  });
+
+  test('interpolates request variables', () => {
+    expect(interpolate('$scheme://$host$request_uri', req)).toBe('http://example.com/api/users?page=2');
+    expect(interpolate('${remote_addr}:$remote_port', req)).toBe('10.0.0.7:51000');
+    expect(interpolate('$uri|$args|$arg_page', req)).toBe('/api/users|page=2|2');
+    expect(interpolate('$http_user_agent', req)).toBe('jest');
+    expect(interpolate('$proxy_add_x_forwarded_for', req)).toBe('203.0.113.1, 10.0.0.7');
+  });
+
+  test('knows nothing of names inherited by the variables table', () => {
+    expect(interpolate('[$constructor][$__proto__][$toString]', req)).toBe('[][][]');
+    expect(isKnownVariable('constructor')).toBe(false);
+    expect(isKnownVariable('__proto__')).toBe(false);
+  });
+});
+
+describe('header directives', () => {
+  const routes = buildProxyConfig(parseConfig(`
+    http {
+      proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+      server {
+        add_header X-Served-By nginclaude;
+        location /api {
+          proxy_pass http://localhost:8001;
+          proxy_set_header Host $host;
+          proxy_set_header Accept-Encoding "";
+          proxy_hide_header X-Powered-By;
+          add_header X-Debug $request_uri always;
+        }
+        location / {
+          proxy_pass http://localhost:8002;
+        }
+      }
+    }
+  `, 'test.conf'), 3000).routes;
+
+  test('inherits a directive type only when the location declares none', () => {
+    expect(routes[0].headers.proxySetHeaders.map(h => h.name)).toEqual(['Host', 'Accept-Encoding']);
+    expect(routes[1].headers.proxySetHeaders.map(h => h.name)).toEqual(['X-Forwarded-For']);
+    expect(routes[1].headers.addHeaders).toEqual([{ name: 'X-Served-By', value: 'nginclaude', always: false }]);
+  });
+
+  test('sets and removes headers on the upstream request', () => {
+    const setHeader = jest.fn();
+    const removeHeader = jest.fn();
+    const proxyReq = { setHeader, removeHeader } as unknown as ClientRequest;
+
+    applyProxyRequestHeaders(proxyReq, fakeRequest('/api', { host: 'example.com' }), routes[0].headers);
+
+    expect(setHeader).toHaveBeenCalledWith('Host', 'example.com');
+    expect(removeHeader).toHaveBeenCalledWith('Accept-Encoding');
+  });
+
+  test('hides upstream headers and adds response headers', () => {
+    const proxyRes = {
+      statusCode: 500,
+      headers: { 'x-powered-by': 'Express', 'content-type': 'text/plain' }
+    } as unknown as IncomingMessage;
+
+    applyProxyResponseHeaders(proxyRes, fakeRequest('/api/x', {}), routes[0].headers);
+    expect(proxyRes.headers).toEqual({ 'content-type': 'text/plain', 'x-debug': '/api/x' });
+
+    const errorRes = { statusCode: 500, headers: {} } as unknown as IncomingMessage;
+    applyProxyResponseHeaders(errorRes, fakeRequest('/', {}), routes[1].headers);
+    expect(errorRes.headers).toEqual({});
+  });
+
+  test('rejects unknown variables at load time', () => {
+    expect(() => buildProxyConfig(parseConfig(
+      'server {\n  location / {\n    proxy_pass http://a;\n    proxy_set_header X-Id $nope;\n  }\n}',
+      'bad.conf'
+    ), 3000)).toThrow('unknown "nope" variable in bad.conf:4:5');
+  });
+});
@@ -0,0 +1,99 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { collectHealthTargets, resolveTarget } from '../src/routing/routes';
+import { DEFAULT_HEALTH_CHECK, ProbeResult, createHealthMonitor } from '../src/upstream/health';
+
+const routes = buildProxyConfig(parseConfig(`
+  http {
+    health_check interval=2s;
+    upstream api {
+      health_check uri=/health fails=2 status=200-299;
+      server a:8001 max_fails=2 fail_timeout=30s;
+      server b:8001;
+    }
+    server {
+      location /api { proxy_pass http://api; }
+      location / {
+        proxy_pass http://localhost:8002;
+        health_check timeout=500ms;
+      }
+    }
+  }
+`, 'test.conf'), 3000).routes;
+
+describe('health checking', () => {
+  let consoleLog: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    consoleLog.mockRestore();
+  });
+
+  test('collects targets with pool, location and http level settings', () => {
+    const targets = collectHealthTargets(routes);
+
+    expect(targets.map(target => target.origin)).toEqual(['http://a:8001', 'http://b:8001', 'http://localhost:8002']);
+    expect(targets[0]).toMatchObject({ maxFails: 2, failTimeout: 30000 });
+    expect(targets[0].check).toMatchObject({ uri: '/health', fails: 2, status: [200, 299], interval: 2000 });
+    expect(targets[2].check).toEqual({ ...DEFAULT_HEALTH_CHECK, interval: 2000, timeout: 500 });
+  });
+
+  test('marks a backend down after consecutive failed probes and up again after a pass', async () => {
+    const results: Record<string, ProbeResult> = { 'http://a:8001': { ok: false, error: 'ECONNREFUSED' } };
+    const monitor = createHealthMonitor(
+      collectHealthTargets(routes),
+      async origin => results[origin] || { ok: true, statusCode: 200 }
+    );
+
+    await monitor.start();
+    monitor.stop();
+    expect(monitor.isUp('http://a:8001')).toBe(true);
+
+    await monitor.start();
+    monitor.stop();
+    expect(monitor.isUp('http://a:8001')).toBe(false);
+    expect(resolveTarget(routes[0], '', monitor.isUp)?.target).toBe('http://b:8001');
+
+    results['http://a:8001'] = { ok: true, statusCode: 200 };
+    await monitor.start();
+    monitor.stop();
+    expect(monitor.isUp('http://a:8001')).toBe(true);
+  });
+
+  test('installs no probe timers when stopped during the first probes', async () => {
+    jest.useFakeTimers();
+    try {
+      let probes = 0;
+      const monitor = createHealthMonitor(collectHealthTargets(routes), async () => {
+        probes++;
+        return { ok: true, statusCode: 200 };
+      });
+
+      const starting = monitor.start();
+      monitor.stop();
+      await starting;
+      jest.advanceTimersByTime(10000);
+      expect(probes).toBe(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('takes a backend out of rotation after max_fails proxy errors', () => {
+    const monitor = createHealthMonitor(collectHealthTargets(routes));
+    const error = new Error('socket hang up');
+
+    monitor.recordFailure('http://a:8001', error);
+    expect(monitor.isUp('http://a:8001')).toBe(true);
+
+    monitor.recordFailure('http://a:8001', error);
+    expect(monitor.isUp('http://a:8001')).toBe(false);
+    expect(monitor.snapshot()[0]).toMatchObject({ status: 'down', passiveDownUntil: expect.any(String) });
+
+    monitor.recordFailure('http://localhost:8002', error);
+    expect(resolveTarget(routes[1], '', monitor.isUp)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { createRoutingStats, defaultLlmTimeout, withinBudget } from '../src/routing/latency-budget';
+
+// A model call that answers after `delay` ms unless aborted first
+const slowCall = (delay: number, signals: AbortSignal[] = []) => (signal: AbortSignal) => {
+  signals.push(signal);
+  return new Promise<string>(resolve => setTimeout(() => resolve('answer'), delay));
+};
+
+describe('latency budget', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('returns the answer when the model is within budget', async () => {
+    const result = withinBudget(slowCall(50), 100);
+    jest.advanceTimersByTime(50);
+
+    await expect(result).resolves.toEqual({ status: 'answered', value: 'answer' });
+  });
+
+  test('gives up and aborts the call when the budget runs out', async () => {
+    const signals: AbortSignal[] = [];
+    const result = withinBudget(slowCall(500, signals), 100);
+    jest.advanceTimersByTime(100);
+
+    await expect(result).resolves.toEqual({ status: 'timeout' });
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  test('aborts the call when cancelled', async () => {
+    const signals: AbortSignal[] = [];
+    const cancel = new AbortController();
+    const result = withinBudget(slowCall(500, signals), 100, cancel.signal);
+    cancel.abort();
+
+    await expect(result).resolves.toEqual({ status: 'cancelled' });
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  test('passes model errors through', async () => {
+    await expect(withinBudget(() => Promise.reject(new Error('overloaded')), 100)).rejects.toThrow('overloaded');
+  });
+
+  test('counts which path routed each request', () => {
+    const stats = createRoutingStats();
+    stats.record('llm');
+    stats.record('timeout');
+    stats.record('llm');
+
+    expect(stats.snapshot()).toEqual({ cache: 0, llm: 2, timeout: 1, race: 0, fallback: 0, shadow: 0 });
+  });
+
+  test('reads llm_timeout and llm_race per location', () => {
+    const [api, admin] = buildProxyConfig(parseConfig(`
+      server {
+        llm_timeout 2s;
+        location /api {
+          proxy_pass http://localhost:8001;
+          llm_race on;
+        }
+        location /admin {
+          proxy_pass http://localhost:8002;
+          llm_timeout 250ms;
+        }
+      }
+    `, 'test.conf'), 3000).routes;
+
+    expect(api.llmBudget).toEqual({ timeout: 2000, race: true });
+    expect(admin.llmBudget).toEqual({ timeout: 250, race: false });
+  });
+
+  test('reads the default budget from ANTHROPIC_TIMEOUT, ignoring values that aren\'t milliseconds', () => {
+    const saved = process.env.ANTHROPIC_TIMEOUT;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const budget = (value: string | undefined) => {
+      if (value === undefined) {
+        delete process.env.ANTHROPIC_TIMEOUT;
+      } else {
+        process.env.ANTHROPIC_TIMEOUT = value;
+      }
+      return defaultLlmTimeout();
+    };
+
+    try {
+      expect([budget(undefined), budget(''), budget('2500')]).toEqual([10000, 10000, 2500]);
+      expect(warn).not.toHaveBeenCalled();
+      expect([budget('5s'), budget('0'), budget('-1'), budget('1.5')]).toEqual([10000, 10000, 10000, 10000]);
+      expect(warn).toHaveBeenCalledWith('Ignoring ANTHROPIC_TIMEOUT "5s", it must be a number of milliseconds; using 10000');
+    } finally {
+      budget(saved);
+      warn.mockRestore();
+    }
+  });
+
+  test('rejects invalid directives', () => {
+    expect(() => buildProxyConfig(parseConfig('llm_timeout never;', 'test.conf'), 3000))
+      .toThrow('invalid value in "llm_timeout" directive in test.conf:1:1');
+    expect(() => buildProxyConfig(parseConfig('llm_race yes;', 'test.conf'), 3000))
+      .toThrow('invalid value in "llm_race" directive, it must be "on" or "off" in test.conf:1:1');
+  });
+});
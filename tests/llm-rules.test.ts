@@ -0,0 +1,87 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { matchRoute } from '../src/routing/location-matcher';
+import { validateDecision } from '../src/routing/validation';
+import { buildRoutingPrompt, createLlmEngine, decisionSchema } from '../src/routing/llm-router';
+import { DEFAULT_MOCK_SCRIPT, createMockModel } from '../src/routing/mock-model';
+
+const routes = buildProxyConfig(parseConfig(`
+  http {
+    server {
+      llm_rule "requests from mobile clients asking for reports go to the reporting service" /reports;
+      location /api { proxy_pass http://localhost:8001; }
+      location /reports { proxy_pass http://localhost:8002; }
+      location /admin {
+        proxy_pass http://localhost:8003;
+        llm_disagreement reject;
+        llm_rule "read-only admin requests can be served by the API" /api /admin;
+      }
+    }
+  }
+`, 'app.conf'), 3000).routes;
+const [api, reports, admin] = routes;
+
+const validate = (decision: { routeId: string; rule?: string }, requestPath: string) =>
+  validateDecision(decision, routes, matchRoute(routes, requestPath));
+
+describe('llm_rule', () => {
+  test('locations get their own rules on top of the server block\'s', () => {
+    expect(api.llmRules).toEqual([{
+      id: 'app.conf:4',
+      text: 'requests from mobile clients asking for reports go to the reporting service',
+      targets: ['/reports'],
+      loc: { file: 'app.conf', line: 4, column: 7 }
+    }]);
+    expect(reports.llmRules.map(rule => rule.id)).toEqual(['app.conf:4']);
+    expect(admin.llmRules.map(rule => [rule.id, rule.targets])).toEqual([
+      ['app.conf:4', ['/reports']],
+      ['app.conf:10', ['/api', '/admin']]
+    ]);
+  });
+
+  test('rules must name routes of their server block', () => {
+    expect(() => buildProxyConfig(parseConfig('server { llm_rule "mobile"; location / { proxy_pass http://a; } }', 'test.conf'), 3000))
+      .toThrow('invalid number of arguments in "llm_rule" directive, it needs a rule and at least one route in test.conf:1:10');
+    expect(() => buildProxyConfig(parseConfig(`
+      server { location /a { proxy_pass http://a; } }
+      server { llm_rule "anything" /a; location /b { proxy_pass http://b; } }
+    `, 'test.conf'), 3000)).toThrow('unknown route "/a" in "llm_rule" directive in test.conf:3:16');
+  });
+
+  test('compiles rules into the prompt and the decision schema', () => {
+    const prompt = buildRoutingPrompt({ method: 'GET', url: '/admin/users' }, routes, () => true, admin.llmRules);
+    expect(prompt).toContain('- Rule "app.conf:4": requests from mobile clients asking for reports go to the reporting service. ' +
+      'Allowed routes: "/reports"');
+    expect(prompt).toContain('- Rule "app.conf:10": read-only admin requests can be served by the API. Allowed routes: "/api", "/admin"');
+    expect(buildRoutingPrompt({ method: 'GET', url: '/api' }, routes, () => true)).not.toContain('Intent Rules');
+
+    const schema = decisionSchema(routes, admin.llmRules);
+    expect(schema.parse({ routeId: '/api', rule: 'app.conf:10' })).toEqual({ routeId: '/api', rule: 'app.conf:10' });
+    expect(schema.safeParse({ routeId: '/api', rule: 'app.conf:99' }).success).toBe(false);
+  });
+
+  test('the model records the rule it applied', async () => {
+    const engine = createLlmEngine('mock', createMockModel('test', {
+      ...DEFAULT_MOCK_SCRIPT,
+      replies: ['{"routeId": "/reports", "rule": "app.conf:4"}']
+    }));
+    await expect(engine.route({ method: 'GET', url: '/api/reports' }, routes, { isUp: () => true, rules: api.llmRules }))
+      .resolves.toEqual({ routeId: '/reports', rule: 'app.conf:4' });
+  });
+
+  test('decisions following a rule may only use the routes it allows', () => {
+    expect(validate({ routeId: '/reports', rule: 'app.conf:4' }, '/api/reports')).toEqual({ accepted: true, route: reports });
+    // Overrides llm_disagreement reject, since the rule allows it
+    expect(validate({ routeId: '/api', rule: 'app.conf:10' }, '/admin/users')).toEqual({ accepted: true, route: api });
+    expect(validate({ routeId: '/admin', rule: 'app.conf:4' }, '/api')).toEqual({
+      accepted: false,
+      route: admin,
+      reason: 'rule "app.conf:4" does not allow /admin => http://localhost:8003'
+    });
+    expect(validate({ routeId: '/api', rule: 'app.conf:10' }, '/reports')).toMatchObject({
+      accepted: false,
+      reason: 'rule "app.conf:10" does not apply to the request'
+    });
+    expect(validate({ routeId: '/reports' }, '/admin')).toMatchObject({ accepted: false });
+  });
+});
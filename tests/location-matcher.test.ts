@@ -0,0 +1,54 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { matchRoute, normalizeUri } from '../src/routing/location-matcher';
+
+const routes = buildProxyConfig(parseConfig(`
+  server {
+    location / { proxy_pass http://web; }
+    location /api { proxy_pass http://api; }
+    location /api/v2/ { proxy_pass http://api-v2; }
+    location = /api { proxy_pass http://api-exact; }
+    location ^~ /static/ { proxy_pass http://static; }
+    location ~ \\.php$ { proxy_pass http://php; }
+    location ~* \\.(png|jpg)$ { proxy_pass http://images; }
+    location ~ ^/api/legacy { proxy_pass http://legacy; }
+  }
+`, 'test.conf'), 3000).routes;
+
+const targetFor = (url: string): string | undefined => matchRoute(routes, url)?.target;
+
+describe('location matching', () => {
+  test('prefers an exact match over every other location', () => {
+    expect(targetFor('/api')).toBe('http://api-exact');
+  });
+
+  test('uses the longest prefix on path segment boundaries', () => {
+    expect(targetFor('/api/users')).toBe('http://api');
+    expect(targetFor('/api/v2/users')).toBe('http://api-v2');
+    expect(targetFor('/apiary')).toBe('http://web');
+  });
+
+  test('checks regex locations in file order after the prefix search', () => {
+    expect(targetFor('/index.php')).toBe('http://php');
+    expect(targetFor('/api/logo.PNG')).toBe('http://images');
+    expect(targetFor('/api/legacy/report.php')).toBe('http://php');
+  });
+
+  test('stops the search at a ^~ prefix', () => {
+    expect(targetFor('/static/logo.png')).toBe('http://static');
+  });
+
+  test('matches against the path only', () => {
+    expect(targetFor('/api?next=/static/x')).toBe('http://api-exact');
+    expect(targetFor('/api/users?format=.php')).toBe('http://api');
+  });
+
+  test('returns null when nothing matches', () => {
+    expect(matchRoute(routes.filter(route => route.path !== '/'), '/about')).toBeNull();
+  });
+
+  test('normalizes the request URI like nginx', () => {
+    expect(normalizeUri('//api///users%20list?x=1')).toBe('/api/users list');
+    expect(normalizeUri('/bad%zz')).toBe('/bad%zz');
+  });
+});
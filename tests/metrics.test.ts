@@ -0,0 +1,95 @@
+import { createMetricsRegistry } from '../src/metrics/registry';
+import { createProxyMetrics, statusClass } from '../src/metrics/proxy-metrics';
+
+describe('metrics registry', () => {
+  test('renders counters in the Prometheus text format', () => {
+    const registry = createMetricsRegistry();
+    const counter = registry.counter('test_total', 'A test counter');
+    counter.inc({ path: '/a' });
+    counter.inc({ path: '/a' }, 2);
+    counter.inc({ path: 'say "hi"\n' });
+
+    expect(registry.render()).toBe([
+      '# HELP test_total A test counter',
+      '# TYPE test_total counter',
+      'test_total{path="/a"} 3',
+      'test_total{path="say \\"hi\\"\\n"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  test('renders histograms with cumulative buckets', () => {
+    const registry = createMetricsRegistry();
+    const histogram = registry.histogram('test_seconds', 'A test histogram', [1, 0.1]);
+    histogram.observe({ route: 'x' }, 0.05);
+    histogram.observe({ route: 'x' }, 0.5);
+    histogram.observe({ route: 'x' }, 3);
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP test_seconds A test histogram',
+      '# TYPE test_seconds histogram',
+      'test_seconds_bucket{route="x",le="0.1"} 1',
+      'test_seconds_bucket{route="x",le="1"} 2',
+      'test_seconds_bucket{route="x",le="+Inf"} 3',
+      'test_seconds_sum{route="x"} 3.55',
+      'test_seconds_count{route="x"} 3',
+      ''
+    ]);
+  });
+
+  test('reads collected metrics at render time', () => {
+    const registry = createMetricsRegistry();
+    let value = 1;
+    registry.collect('test_gauge', 'A test gauge', 'gauge', () => [{ labels: {}, value }]);
+    expect(registry.render()).toContain('test_gauge 1\n');
+    value = 0;
+    expect(registry.render()).toContain('test_gauge 0\n');
+  });
+});
+
+describe('proxy metrics', () => {
+  const metrics = createProxyMetrics({
+    health: () => [
+      { origin: 'http://localhost:8001', status: 'up', consecutiveFailures: 0, consecutiveSuccesses: 3 },
+      { origin: 'http://localhost:8002', status: 'down', consecutiveFailures: 4, consecutiveSuccesses: 0 }
+    ],
+    routing: () => ({ cache: 1, llm: 2, timeout: 0, race: 0, fallback: 1, shadow: 0 }),
+    decisionCache: () => ({ hits: 1, misses: 2, hitRate: 1 / 3, size: 2, maxSize: 1000 })
+  });
+
+  metrics.observeRequest({ server: 'localhost', location: '/api', upstream: 'http://localhost:8001' }, 204, 0.02);
+  metrics.observeRequest({ server: 'localhost', location: '/api', upstream: 'http://localhost:8001' }, 502, 0.3);
+  metrics.observeEngineCall('llm mock/test', 'answered', 0.4);
+  metrics.countTokens('llm mock/test', { promptTokens: 120, completionTokens: 15 });
+  metrics.countFallback('proxy_error');
+  metrics.countUpstreamRetry('http_503');
+  const text = metrics.render();
+
+  test('counts requests by location, upstream and status class', () => {
+    expect(statusClass(404)).toBe('4xx');
+    expect(text).toContain(
+      'nginclaude_http_requests_total{server="localhost",location="/api",upstream="http://localhost:8001",status="2xx"} 1'
+    );
+    expect(text).toContain(
+      'nginclaude_http_request_duration_seconds_count{server="localhost",location="/api",upstream="http://localhost:8001"} 2'
+    );
+  });
+
+  test('counts engine calls, tokens, every fallback reason and retries', () => {
+    expect(text).toContain('nginclaude_llm_calls_total{engine="llm mock/test",outcome="answered"} 1');
+    expect(text).toContain('nginclaude_llm_call_duration_seconds_bucket{engine="llm mock/test",le="0.5"} 1');
+    expect(text).toContain('nginclaude_llm_tokens_total{engine="llm mock/test",type="prompt"} 120');
+    expect(text).toContain('nginclaude_llm_tokens_total{engine="llm mock/test",type="completion"} 15');
+    expect(text).toContain('nginclaude_fallbacks_total{reason="proxy_error"} 1');
+    expect(text).toContain('nginclaude_fallbacks_total{reason="url_parse_failure"} 0');
+    expect(text).toContain('nginclaude_upstream_retries_total{reason="http_503"} 1');
+  });
+
+  test('reports backend health and routing paths', () => {
+    expect(text).toContain('nginclaude_upstream_up{upstream="http://localhost:8001"} 1');
+    expect(text).toContain('nginclaude_upstream_up{upstream="http://localhost:8002"} 0');
+    expect(text).toContain('nginclaude_upstream_consecutive_failures{upstream="http://localhost:8002"} 4');
+    expect(text).toContain('nginclaude_routing_total{path="llm"} 2');
+    expect(text).toContain('nginclaude_decision_cache_hits_total 1');
+  });
+});
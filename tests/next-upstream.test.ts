@@ -0,0 +1,92 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { canRetry, countsAsFailure, errorPage, proxyFailure, statusFailure } from '../src/proxy/next-upstream';
+
+const [api, payments, uploads] = buildProxyConfig(parseConfig(`
+  http {
+    proxy_next_upstream_tries 3;
+    proxy_connect_timeout 5s;
+
+    server {
+      location /api {
+        proxy_pass http://localhost:8001;
+        proxy_next_upstream error timeout http_502 http_503 http_504;
+        proxy_next_upstream_timeout 10s;
+        proxy_read_timeout 30s;
+      }
+      location /payments {
+        proxy_pass http://localhost:8002;
+        proxy_next_upstream off;
+      }
+      location /uploads {
+        proxy_pass http://localhost:8003;
+        proxy_next_upstream error non_idempotent;
+        client_body_buffer_size 1m;
+      }
+    }
+  }
+`, 'test.conf'), 3000).routes;
+
+describe('proxy_next_upstream', () => {
+  test('reads the retry policy and timeouts, each inherited separately', () => {
+    expect(api.nextUpstream).toEqual({
+      conditions: ['error', 'timeout', 'http_502', 'http_503', 'http_504'],
+      nonIdempotent: false,
+      tries: 3,
+      timeout: 10000,
+      connectTimeout: 5000,
+      readTimeout: 30000,
+      bodyBufferSize: 16384
+    });
+    expect(payments.nextUpstream).toMatchObject({ conditions: [], tries: 3, timeout: 0, readTimeout: 60000 });
+    expect(uploads.nextUpstream).toMatchObject({ conditions: ['error'], nonIdempotent: true, bodyBufferSize: 1048576 });
+  });
+
+  test('rejects bad values', () => {
+    const build = (directives: string) => buildProxyConfig(parseConfig(`server { ${directives} location / { proxy_pass http://a; } }`, 'test.conf'), 3000);
+    expect(() => build('proxy_next_upstream error http_418;'))
+      .toThrow('invalid value "http_418" in "proxy_next_upstream" directive in test.conf:1:10');
+    expect(() => build('proxy_next_upstream_tries many;'))
+      .toThrow('invalid value in "proxy_next_upstream_tries" directive, it must be a number in test.conf:1:10');
+    expect(() => build('proxy_read_timeout soon;'))
+      .toThrow('invalid value in "proxy_read_timeout" directive, it must be a time in test.conf:1:10');
+    expect(() => build('client_body_buffer_size big;'))
+      .toThrow('invalid value in "client_body_buffer_size" directive, it must be a size in test.conf:1:10');
+  });
+
+  test('classifies failures', () => {
+    expect(proxyFailure(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }), false)).toBe('error');
+    expect(proxyFailure(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), true)).toBe('timeout');
+    expect(proxyFailure(Object.assign(new Error('Parse Error'), { code: 'HPE_INVALID_CONSTANT' }), false)).toBe('invalid_header');
+    expect(statusFailure(503)).toBe('http_503');
+    expect(statusFailure(501)).toBeNull();
+    expect(statusFailure(200)).toBeNull();
+    expect(countsAsFailure('http_502')).toBe(true);
+    expect(countsAsFailure('http_404')).toBe(false);
+  });
+
+  test('retries listed failures within the tries and time budget', () => {
+    const budget = { tries: 1, startedAt: 0 };
+    expect(canRetry('http_503', api.nextUpstream, 'GET', true, budget, 1000)).toBe(true);
+    expect(canRetry('http_500', api.nextUpstream, 'GET', true, budget, 1000)).toBe(false);
+    expect(canRetry('error', payments.nextUpstream, 'GET', false, budget, 1000)).toBe(false);
+    expect(canRetry('error', api.nextUpstream, 'GET', false, { tries: 3, startedAt: 0 }, 1000)).toBe(false);
+    expect(canRetry('error', api.nextUpstream, 'GET', false, budget, 10000)).toBe(false);
+  });
+
+  test('retries non-idempotent requests only before they reach a backend, unless allowed', () => {
+    const budget = { tries: 1, startedAt: 0 };
+    expect(canRetry('error', api.nextUpstream, 'POST', false, budget, 0)).toBe(true);
+    expect(canRetry('timeout', api.nextUpstream, 'POST', true, budget, 0)).toBe(false);
+    expect(canRetry('http_502', api.nextUpstream, 'PATCH', true, budget, 0)).toBe(false);
+    expect(canRetry('timeout', api.nextUpstream, 'PUT', true, budget, 0)).toBe(true);
+    expect(canRetry('error', uploads.nextUpstream, 'POST', true, budget, 0)).toBe(true);
+  });
+
+  test('renders error pages like nginx', () => {
+    expect(errorPage(504)).toBe(
+      '<html>\r\n<head><title>504 Gateway Timeout</title></head>\r\n<body>\r\n' +
+      '<center><h1>504 Gateway Timeout</h1></center>\r\n<hr><center>nginclaude</center>\r\n</body>\r\n</html>\r\n'
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { IncomingMessage } from 'http';
+import { Socket } from 'net';
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { createRateLimiter } from '../src/proxy/rate-limit';
+
+const config = buildProxyConfig(parseConfig(`
+  http {
+    limit_req_zone $binary_remote_addr zone=perip:1m rate=2r/s;
+    limit_req_zone $http_x_api_key zone=perkey:128 rate=60r/m;
+    limit_req_zone $binary_remote_addr zone=llm:1m rate=1r/s;
+    limit_conn_zone $binary_remote_addr zone=addr:10m;
+    limit_req zone=perip burst=2;
+
+    server {
+      llm_limit_req zone=llm burst=1;
+      location /api {
+        proxy_pass http://localhost:8001;
+        limit_req zone=perip burst=4 delay=2;
+        limit_req zone=perkey nodelay;
+        limit_req_status 429;
+        limit_conn addr 2;
+      }
+      location /static { proxy_pass http://localhost:8002; }
+    }
+  }
+`, 'test.conf'), 3000);
+const [api, staticFiles] = config.routes;
+const zones = config.limitZones;
+
+const request = (remoteAddress: string, headers: Record<string, string> = {}): IncomingMessage => {
+  const req = new IncomingMessage(new Socket());
+  req.headers = headers;
+  Object.defineProperty(req.socket, 'remoteAddress', { value: remoteAddress });
+  return req;
+};
+
+describe('rate limiting', () => {
+  test('reads zones and limits, each inherited separately', () => {
+    expect(zones.requests.get('perip')).toEqual({ name: 'perip', key: '$binary_remote_addr', capacity: 16384, rate: 2 });
+    expect(zones.requests.get('perkey')).toEqual({ name: 'perkey', key: '$http_x_api_key', capacity: 2, rate: 1 });
+    expect(zones.connections.get('addr')).toMatchObject({ capacity: 163840 });
+
+    expect(api.rateLimit).toMatchObject({
+      requests: [{ zone: 'perip', burst: 4, delay: 2 }, { zone: 'perkey', burst: 0, delay: Infinity }],
+      requestStatus: 429,
+      connections: [{ zone: 'addr', max: 2 }],
+      connectionStatus: 503,
+      llmRequests: [{ zone: 'llm', burst: 1, delay: Infinity }]
+    });
+    expect(staticFiles.rateLimit).toMatchObject({ requests: [{ zone: 'perip', burst: 2, delay: 0 }], requestStatus: 503 });
+    expect(config.servers[0].rateLimit.connections).toEqual([]);
+  });
+
+  test('rejects bad zones and limits', () => {
+    const build = (http: string) => buildProxyConfig(parseConfig(`http { ${http} }`, 'test.conf'), 3000);
+    expect(() => build('limit_req_zone $binary_remote_addr zone=one:1m;'))
+      .toThrow('no rate in "limit_req_zone" directive in test.conf:1:8');
+    expect(() => build('limit_req_zone $binary_remote_addr zone=one:1m rate=1.5r/s;'))
+      .toThrow('invalid rate "1.5r/s" in test.conf:1:8');
+    expect(() => build('limit_req_zone $binary_remote_addr zone=one rate=1r/s;'))
+      .toThrow('invalid zone size "one" in test.conf:1:8');
+    expect(() => build('limit_conn_zone $remote_user zone=one:1m;'))
+      .toThrow('unknown "remote_user" variable in test.conf:1:8');
+    expect(() => build('server { limit_req zone=nope; }'))
+      .toThrow('unknown limit_req_zone "nope" in test.conf:1:17');
+    expect(() => build('server { location / { proxy_pass http://a; limit_conn nope 1; } }'))
+      .toThrow('unknown limit_conn_zone "nope" in test.conf:1:51');
+    expect(() => build('server { limit_req burst=5; }'))
+      .toThrow('no zone in "limit_req" directive in test.conf:1:17');
+    expect(() => build('server { llm_limit_req zone=llm nodelay; }'))
+      .toThrow('invalid parameter "nodelay" in test.conf:1:17');
+    expect(() => build('limit_req_status 200;'))
+      .toThrow('value must be between 400 and 599 in "limit_req_status" directive in test.conf:1:8');
+  });
+
+  test('lets a burst through, delayed beyond the rate, and rejects past it', () => {
+    let now = 0;
+    const limiter = createRateLimiter(() => now);
+    const limits = staticFiles.rateLimit.requests;
+    const client = request('10.0.0.1');
+
+    expect(limiter.limitRequest(client, limits, zones)).toEqual({ status: 'pass', delay: 0 });
+    expect(limiter.limitRequest(client, limits, zones)).toEqual({ status: 'pass', delay: 500 });
+    expect(limiter.limitRequest(client, limits, zones)).toEqual({ status: 'pass', delay: 1000 });
+    expect(limiter.limitRequest(client, limits, zones)).toEqual({ status: 'reject', zone: 'perip', excess: 3 });
+    // Other clients have their own bucket
+    expect(limiter.limitRequest(request('10.0.0.2'), limits, zones)).toEqual({ status: 'pass', delay: 0 });
+
+    // The bucket drains at the rate
+    now = 500;
+    expect(limiter.limitRequest(client, limits, zones)).toEqual({ status: 'pass', delay: 1000 });
+    now = 2000;
+    expect(limiter.limitRequest(client, limits, zones)).toEqual({ status: 'pass', delay: 0 });
+  });
+
+  test('nodelay and delay=N pass excess requests right away', () => {
+    const limiter = createRateLimiter(() => 0);
+    const client = request('10.0.0.1', { 'x-api-key': 'key-1' });
+    const [perip] = api.rateLimit.requests;
+
+    expect([1, 2, 3, 4, 5, 6].map(() => limiter.limitRequest(client, [perip], zones))).toEqual([
+      { status: 'pass', delay: 0 },
+      { status: 'pass', delay: 0 },
+      { status: 'pass', delay: 0 },
+      { status: 'pass', delay: 500 },
+      { status: 'pass', delay: 1000 },
+      { status: 'reject', zone: 'perip', excess: 5 }
+    ]);
+
+    const [, perkey] = api.rateLimit.requests;
+    expect(limiter.limitRequest(client, [perkey], zones)).toEqual({ status: 'pass', delay: 0 });
+    expect(limiter.limitRequest(client, [perkey], zones)).toEqual({ status: 'reject', zone: 'perkey', excess: 1 });
+  });
+
+  test('accounts a request only when it passes every limit, and skips empty keys', () => {
+    const limiter = createRateLimiter(() => 0);
+    const limits = api.rateLimit.requests;
+
+    expect(limiter.limitRequest(request('10.0.0.1', { 'x-api-key': 'a' }), limits, zones).status).toBe('pass');
+    expect(limiter.limitRequest(request('10.0.0.1', { 'x-api-key': 'a' }), limits, zones).status).toBe('reject');
+    // The rejected request didn't count against perip, and without a key perkey doesn't apply
+    expect(limiter.limitRequest(request('10.0.0.1'), limits, zones)).toEqual({ status: 'pass', delay: 0 });
+    expect(limiter.limitRequest(request('10.0.0.1'), limits, zones)).toEqual({ status: 'pass', delay: 0 });
+  });
+
+  test('forgets the least recently seen keys of a full zone', () => {
+    const limiter = createRateLimiter(() => 0);
+    const [, perkey] = api.rateLimit.requests;
+    const client = (key: string) => request('10.0.0.1', { 'x-api-key': key });
+
+    limiter.limitRequest(client('a'), [perkey], zones);
+    limiter.limitRequest(client('b'), [perkey], zones);
+    limiter.limitRequest(client('c'), [perkey], zones);
+    expect(limiter.limitRequest(client('a'), [perkey], zones).status).toBe('pass');
+    expect(limiter.limitRequest(client('c'), [perkey], zones).status).toBe('reject');
+  });
+
+  test('limits concurrent connections per key', () => {
+    const limiter = createRateLimiter();
+    const limits = api.rateLimit.connections;
+
+    const [first] = [1, 2].map(() => limiter.acquireConnection(request('10.0.0.1'), limits, zones));
+    expect(limiter.acquireConnection(request('10.0.0.1'), limits, zones)).toEqual({ status: 'reject', zone: 'addr' });
+    expect(limiter.acquireConnection(request('10.0.0.2'), limits, zones).status).toBe('pass');
+
+    // Releasing twice frees the slot only once
+    const { release } = first as { release: () => void };
+    release();
+    release();
+    expect(limiter.acquireConnection(request('10.0.0.1'), limits, zones).status).toBe('pass');
+    expect(limiter.acquireConnection(request('10.0.0.1'), limits, zones).status).toBe('reject');
+  });
+});
@@ -0,0 +1,163 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { buildRoutingPrompt } from '../src/routing/llm-router';
+import {
+  DEFAULT_LLM_CONTEXT,
+  buildRoutingRequest,
+  parseJsonPath,
+  redactBody,
+  redactHeaders,
+  redactUrl
+} from '../src/routing/redaction';
+import { RequestBody } from '../src/proxy/body';
+
+const headers = {
+  host: 'localhost:3000',
+  authorization: 'Bearer test-token',
+  cookie: 'session=abc',
+  'x-api-key': 'secret',
+  'x-tenant': 'acme',
+  'user-agent': 'curl/8.0'
+};
+
+const jsonHeaders = { 'content-type': 'application/json; charset=utf-8' };
+
+// A body preview as readRequestBody returns it
+const preview = (text: string, truncated = false): RequestBody => ({
+  preview: Buffer.from(text),
+  truncated,
+  stream: () => null
+});
+
+const body = {
+  user: { name: 'Ada', password: 'hunter2' },
+  cards: [{ number: '4111111111111111' }, { number: '5500000000000004' }],
+  nested: { deeper: { token: 't' } }
+};
+
+describe('LLM context redaction', () => {
+  test('drops credential headers by default', () => {
+    expect(redactHeaders(headers, DEFAULT_LLM_CONTEXT)).toEqual({
+      host: 'localhost:3000',
+      'x-tenant': 'acme',
+      'user-agent': 'curl/8.0'
+    });
+  });
+
+  test('applies the allowlist without letting denied headers through', () => {
+    const config = { ...DEFAULT_LLM_CONTEXT, allowHeaders: ['x-tenant', 'authorization'], hideHeaders: [] };
+    expect(redactHeaders(headers, config)).toEqual({ 'x-tenant': 'acme' });
+    expect(redactHeaders(headers, { ...DEFAULT_LLM_CONTEXT, hideHeaders: ['user-agent'] }))
+      .not.toHaveProperty('user-agent');
+  });
+
+  test('masks query values unless llm_context_args allows them', () => {
+    expect(redactUrl('/search?q=shoes&api_key=secret&q=boots', DEFAULT_LLM_CONTEXT))
+      .toBe('/search?q=%5BREDACTED%5D&api_key=%5BREDACTED%5D&q=%5BREDACTED%5D');
+    expect(redactUrl('/search?q=red%20shoes&token=t', { ...DEFAULT_LLM_CONTEXT, allowArgs: ['q'] }))
+      .toBe('/search?q=red%20shoes&token=%5BREDACTED%5D');
+    expect(redactUrl('/search', DEFAULT_LLM_CONTEXT)).toBe('/search');
+    expect(redactUrl('/search?', DEFAULT_LLM_CONTEXT)).toBe('/search?');
+  });
+
+  test('parses JSON paths', () => {
+    expect(parseJsonPath('$.user.password')).toEqual(['user', 'password']);
+    expect(parseJsonPath('$.cards[*].number')).toEqual(['cards', '*', 'number']);
+    expect(parseJsonPath('$..token')).toEqual(['**', 'token']);
+    expect(parseJsonPath('$["odd key"][0]')).toEqual(['odd key', '0']);
+    expect(parseJsonPath('user.password')).toBeNull();
+    expect(parseJsonPath('$.')).toBeNull();
+    expect(parseJsonPath('$..')).toBeNull();
+  });
+
+  test('masks body values by JSON path', () => {
+    const config = { ...DEFAULT_LLM_CONTEXT, bodyMasks: ['$.user.password', '$.cards[*].number', '$..token'] };
+
+    expect(JSON.parse(redactBody(preview(JSON.stringify(body)), jsonHeaders, config) as string)).toEqual({
+      user: { name: 'Ada', password: '[REDACTED]' },
+      cards: [{ number: '[REDACTED]' }, { number: '[REDACTED]' }],
+      nested: { deeper: { token: '[REDACTED]' } }
+    });
+  });
+
+  test('masks only keys the body has, not ones inherited from Object.prototype', () => {
+    const config = { ...DEFAULT_LLM_CONTEXT, bodyMasks: ['$.constructor', '$.__proto__.toString', '$.user.hasOwnProperty'] };
+
+    expect(JSON.parse(redactBody(preview(JSON.stringify(body)), jsonHeaders, config) as string)).toEqual(body);
+    expect(typeof Object.prototype.toString).toBe('function');
+  });
+
+  test('masks form fields like top-level keys', () => {
+    const config = { ...DEFAULT_LLM_CONTEXT, bodyMasks: ['$.password'] };
+    const form = { 'content-type': 'application/x-www-form-urlencoded' };
+
+    expect(redactBody(preview('user=ada&password=hunter2'), form, config)).toBe('user=ada&password=%5BREDACTED%5D');
+  });
+
+  test('describes bodies that cannot be shown or masked', () => {
+    const masked = { ...DEFAULT_LLM_CONTEXT, bodyMasks: ['$.password'] };
+
+    expect(redactBody(preview('\x89PNG'), { 'content-type': 'image/png', 'content-length': '4' }, DEFAULT_LLM_CONTEXT))
+      .toBe('(image/png body of 4 bytes, not shown)');
+    expect(redactBody(preview('{"password": "hun', true), jsonHeaders, masked))
+      .toBe('(application/json body of more than 17 bytes, not shown because it cannot be masked)');
+    expect(redactBody(preview('password=hunter2'), { 'content-type': 'text/plain' }, masked))
+      .toBe('(text/plain body of 16 bytes, not shown because it cannot be masked)');
+    expect(redactBody(preview(''), jsonHeaders, DEFAULT_LLM_CONTEXT)).toBeUndefined();
+  });
+
+  test('truncates long bodies', () => {
+    const excerpt = redactBody(
+      preview('{"text":"' + 'x'.repeat(100), true),
+      { ...jsonHeaders, 'content-length': '111' },
+      { ...DEFAULT_LLM_CONTEXT, bodyLimit: 20 }
+    );
+    expect(excerpt).toBe('{"text":"xxxxxxxxxxx... (truncated, 111 bytes in total)');
+  });
+
+  test('includes only what llm_context allows in the prompt', () => {
+    const [off, headersOnly, full] = buildProxyConfig(parseConfig(`
+      server {
+        llm_context_mask $.user.password;
+        location /off { proxy_pass http://localhost:8001; llm_context off; }
+        location /headers { proxy_pass http://localhost:8001; }
+        location /full {
+          proxy_pass http://localhost:8001;
+          llm_context full;
+          llm_context_headers X-Tenant;
+          llm_context_args page;
+          llm_context_body_limit 1k;
+        }
+      }
+    `, 'test.conf'), 3000).routes;
+    const prompt = (route: typeof off) =>
+      buildRoutingPrompt(
+        buildRoutingRequest('POST', `${route.path}?page=2&token=t0ken`, { ...headers, ...jsonHeaders }, preview(JSON.stringify(body)), route.llmContext),
+        [route],
+        () => true
+      );
+
+    expect(prompt(off)).not.toContain('- Headers');
+    expect(prompt(off)).not.toContain('- Body');
+    expect(prompt(off)).toContain('- URL: /off?page=%5BREDACTED%5D&token=%5BREDACTED%5D');
+    expect(prompt(headersOnly)).toContain('- Headers: {"host":"localhost:3000","x-tenant":"acme","user-agent":"curl/8.0","content-type":"application/json; charset=utf-8"}');
+    expect(prompt(headersOnly)).not.toContain('- Body');
+    expect(full.llmContext).toMatchObject({ allowHeaders: ['x-tenant'], allowArgs: ['page'], bodyLimit: 1024, bodyMasks: ['$.user.password'] });
+    expect(prompt(full)).toContain('- Headers: {"x-tenant":"acme"}');
+    expect(prompt(full)).toContain('"password":"[REDACTED]"');
+    expect(prompt(full)).not.toContain('hunter2');
+    expect(prompt(full)).not.toContain('test-token');
+    expect(prompt(full)).toContain('- URL: /full?page=2&token=%5BREDACTED%5D');
+  });
+
+  test('rejects invalid directives', () => {
+    expect(() => buildProxyConfig(parseConfig('llm_context some;', 'test.conf'), 3000))
+      .toThrow('invalid value "some" in "llm_context" directive, it must be "off", "headers" or "full" in test.conf:1:1');
+    expect(() => buildProxyConfig(parseConfig('llm_context_mask user.password;', 'test.conf'), 3000))
+      .toThrow('invalid JSON path "user.password" in "llm_context_mask" directive in test.conf:1:1');
+    expect(() => buildProxyConfig(parseConfig('llm_context_args;', 'test.conf'), 3000))
+      .toThrow('invalid number of arguments in "llm_context_args" directive in test.conf:1:1');
+    expect(() => buildProxyConfig(parseConfig('llm_context_body_limit lots;', 'test.conf'), 3000))
+      .toThrow('invalid value in "llm_context_body_limit" directive in test.conf:1:1');
+  });
+});
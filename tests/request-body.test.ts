@@ -0,0 +1,72 @@
+import { IncomingMessage } from 'http';
+import { PassThrough, Readable } from 'stream';
+import { hasBody, readRequestBody } from '../src/proxy/body';
+
+// A request whose body arrives in the given chunks
+const request = (chunks: string[], headers: Record<string, string> = { 'transfer-encoding': 'chunked' }) => {
+  const req = new PassThrough() as PassThrough & { headers: Record<string, string> };
+  req.headers = headers;
+  chunks.forEach(chunk => req.write(chunk));
+  req.end();
+  return req as unknown as IncomingMessage;
+};
+
+const drain = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+describe('request body', () => {
+  test('detects bodies from the framing headers', () => {
+    expect(hasBody(request([], {}))).toBe(false);
+    expect(hasBody(request([], { 'content-length': '0' }))).toBe(false);
+    expect(hasBody(request([], { 'content-length': '12' }))).toBe(true);
+    expect(hasBody(request([], { 'transfer-encoding': 'chunked' }))).toBe(true);
+  });
+
+  test('previews a small body and replays it as often as needed', async () => {
+    const body = await readRequestBody(request(['{"a":', '1}']), 1024);
+
+    expect(body.preview.toString()).toBe('{"a":1}');
+    expect(body.truncated).toBe(false);
+    await expect(drain(body.stream() as Readable)).resolves.toBe('{"a":1}');
+    await expect(drain(body.stream() as Readable)).resolves.toBe('{"a":1}');
+  });
+
+  test('stops reading at the preview limit and streams the rest once', async () => {
+    const body = await readRequestBody(request(['0123456789', 'abcdefghij', 'klmnopqrst']), 15);
+
+    expect(body.preview.toString()).toBe('0123456789abcde');
+    expect(body.truncated).toBe(true);
+    await expect(drain(body.stream() as Readable)).resolves.toBe('0123456789abcdefghijklmnopqrst');
+    expect(body.stream()).toBeNull();
+  });
+
+  test('leaves the body untouched without a preview', async () => {
+    const req = request(['payload']);
+    const body = await readRequestBody(req, 0);
+
+    expect(body.preview.length).toBe(0);
+    expect(body.truncated).toBe(true);
+    expect(body.stream()).toBe(req);
+  });
+
+  test('keeps bodies up to the buffer limit so they can be sent again, previewing less', async () => {
+    const body = await readRequestBody(request(['0123456789', 'abcdefghij']), 0, 1024);
+
+    expect(body.preview.length).toBe(0);
+    expect(body.truncated).toBe(true);
+    await expect(drain(body.stream() as Readable)).resolves.toBe('0123456789abcdefghij');
+    await expect(drain(body.stream() as Readable)).resolves.toBe('0123456789abcdefghij');
+  });
+
+  test('treats requests without a body as empty', async () => {
+    const body = await readRequestBody(request([], {}), 1024);
+
+    expect(body.truncated).toBe(false);
+    await expect(drain(body.stream() as Readable)).resolves.toBe('');
+  });
+});
@@ -0,0 +1,244 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http, { IncomingMessage } from 'http';
+import { AddressInfo, Socket } from 'net';
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import {
+  CachedResponse,
+  cacheLifetime,
+  cachedResponseStatus,
+  captureResponse,
+  createResponseCache,
+  responseCacheKey,
+  staleOnError,
+  toCachedResponse,
+  varyMatches
+} from '../src/proxy/response-cache';
+
+const config = buildProxyConfig(parseConfig(`
+  http {
+    proxy_cache_path memory keys_zone=mem:1m max_size=100;
+    proxy_cache_path /var/cache/nginclaude levels=1:2 keys_zone=disk:10m inactive=1h use_temp_path=off;
+    proxy_cache_valid 200 10m;
+
+    server {
+      location /static {
+        proxy_pass http://localhost:8002;
+        proxy_cache mem;
+        proxy_cache_valid 200 301 5m;
+        proxy_cache_valid 404 1m;
+        proxy_cache_use_stale error timeout updating;
+      }
+      location /reports {
+        proxy_pass http://localhost:8001;
+        proxy_cache disk;
+        proxy_cache_key $host$uri$http_accept;
+        proxy_cache_methods POST;
+      }
+      location /api { proxy_pass http://localhost:8001; }
+    }
+  }
+`, 'test.conf'), 3000);
+const [staticFiles, reports, api] = config.routes;
+
+const request = (method: string, url: string, headers: Record<string, string> = {}): IncomingMessage => {
+  const req = new IncomingMessage(new Socket());
+  req.method = method;
+  req.url = url;
+  req.headers = { host: 'example.com', ...headers };
+  return req;
+};
+
+const cached = (overrides: Partial<CachedResponse> = {}): CachedResponse => ({
+  statusCode: 200,
+  headers: { 'content-type': 'text/css' },
+  body: Buffer.from('body { color: red }'),
+  vary: {},
+  storedAt: 0,
+  expiresAt: 60000,
+  staleWhileRevalidate: 0,
+  staleIfError: 0,
+  ...overrides
+});
+
+describe('proxy_cache', () => {
+  test('reads zones and per-location settings, each inherited separately', () => {
+    expect(config.cacheZones.get('mem')).toEqual({
+      name: 'mem', path: null, levels: [], capacity: 8192, maxSize: 100, inactive: 600000
+    });
+    expect(config.cacheZones.get('disk')).toEqual({
+      name: 'disk', path: '/var/cache/nginclaude', levels: [1, 2], capacity: 81920, maxSize: Infinity, inactive: 3600000
+    });
+
+    expect(staticFiles.proxyCache).toMatchObject({
+      zone: 'mem',
+      key: '$scheme$host$request_uri',
+      valid: [{ statuses: [200, 301], time: 300000 }, { statuses: [404], time: 60000 }],
+      methods: ['GET', 'HEAD'],
+      useStale: ['error', 'timeout', 'updating']
+    });
+    expect(reports.proxyCache).toMatchObject({
+      zone: 'disk',
+      key: '$host$uri$http_accept',
+      valid: [{ statuses: [200], time: 600000 }],
+      methods: ['GET', 'HEAD', 'POST']
+    });
+    expect(api.proxyCache.zone).toBeNull();
+  });
+
+  test('rejects bad zones and settings', () => {
+    const build = (http: string) => buildProxyConfig(parseConfig(`http { ${http} }`, 'test.conf'), 3000);
+    expect(() => build('proxy_cache_path /tmp/cache levels=1:2;'))
+      .toThrow('"proxy_cache_path" must have "keys_zone" parameter in test.conf:1:8');
+    expect(() => build('proxy_cache_path memory keys_zone=one;'))
+      .toThrow('invalid keys zone size "one" in test.conf:1:8');
+    expect(() => build('proxy_cache_path memory keys_zone=one:1m levels=1:2;'))
+      .toThrow('invalid parameter "levels=1:2" in test.conf:1:8');
+    expect(() => build('server { location / { proxy_pass http://a; proxy_cache nope; } }'))
+      .toThrow('unknown proxy_cache zone "nope" in test.conf:1:51');
+    expect(() => build('proxy_cache_valid 200 soon;'))
+      .toThrow('invalid time value "soon" in test.conf:1:8');
+    expect(() => build('proxy_cache_key $cookie_session;'))
+      .toThrow('unknown "cookie_session" variable in test.conf:1:8');
+    expect(() => build('proxy_cache_use_stale http_418;'))
+      .toThrow('invalid value "http_418" in "proxy_cache_use_stale" directive in test.conf:1:8');
+  });
+
+  test('builds keys for cached methods only', () => {
+    expect(responseCacheKey(request('GET', '/static/app.css?v=2'), staticFiles.proxyCache))
+      .toBe('httpexample.com/static/app.css?v=2');
+    expect(responseCacheKey(request('POST', '/static/app.css'), staticFiles.proxyCache)).toBeNull();
+    expect(responseCacheKey(request('POST', '/reports/q1', { accept: 'text/csv' }), reports.proxyCache))
+      .toBe('example.com/reports/q1text/csv');
+    expect(responseCacheKey(request('GET', '/api/users'), api.proxyCache)).toBeNull();
+  });
+
+  test('takes the lifetime from Cache-Control or Expires before proxy_cache_valid', () => {
+    const valid = staticFiles.proxyCache.valid;
+    const now = Date.parse('2026-10-19T12:00:00Z');
+
+    expect(cacheLifetime(200, {}, valid, now)).toEqual({ ttl: 300000, staleWhileRevalidate: 0, staleIfError: 0 });
+    expect(cacheLifetime(500, {}, valid, now)).toBeNull();
+    expect(cacheLifetime(200, { 'cache-control': 'public, max-age=30, stale-while-revalidate=60, stale-if-error=600' }, valid, now))
+      .toEqual({ ttl: 30000, staleWhileRevalidate: 60000, staleIfError: 600000 });
+    expect(cacheLifetime(200, { 'cache-control': 'max-age=30, s-maxage=120' }, valid, now)?.ttl).toBe(120000);
+    expect(cacheLifetime(500, { expires: 'Mon, 19 Oct 2026 12:01:00 GMT' }, valid, now)?.ttl).toBe(60000);
+
+    expect(cacheLifetime(200, { 'cache-control': 'max-age=0' }, valid, now)).toBeNull();
+    expect(cacheLifetime(200, { expires: '0' }, valid, now)).toBeNull();
+    expect(cacheLifetime(200, { 'cache-control': 'private, max-age=60' }, valid, now)).toBeNull();
+    expect(cacheLifetime(200, { 'cache-control': 'no-store' }, valid, now)).toBeNull();
+    expect(cacheLifetime(200, { 'set-cookie': ['session=1'] }, valid, now)).toBeNull();
+    expect(cacheLifetime(200, { vary: '*' }, valid, now)).toBeNull();
+  });
+
+  test('serves fresh responses, then stale ones only where allowed', () => {
+    const req = request('GET', '/static/app.css', { 'accept-encoding': 'gzip' });
+    const response = toCachedResponse(req, 200, {
+      'content-type': 'text/css',
+      'cache-control': 'max-age=60, stale-if-error=300',
+      vary: 'Accept-Encoding',
+      'transfer-encoding': 'chunked',
+      'x-cache-status': 'MISS'
+    }, Buffer.from('css'), api.proxyCache, 0) as CachedResponse;
+
+    expect(response).toMatchObject({ expiresAt: 60000, staleIfError: 300000, vary: { 'accept-encoding': 'gzip' } });
+    expect(Object.keys(response.headers)).toEqual(['content-type', 'cache-control', 'vary']);
+    expect(varyMatches(response, req)).toBe(true);
+    expect(varyMatches(response, request('GET', '/static/app.css'))).toBe(false);
+
+    // Without proxy_cache_use_stale, only the response's own stale-if-error applies
+    expect(cachedResponseStatus(response, api.proxyCache, 59999)).toBe('HIT');
+    expect(cachedResponseStatus(response, api.proxyCache, 60000)).toBe('EXPIRED');
+    expect(staleOnError(response, 503, api.proxyCache, 100000)).toBe(true);
+    expect(staleOnError(response, 503, api.proxyCache, 360000)).toBe(false);
+    expect(staleOnError(response, 404, api.proxyCache, 100000)).toBe(false);
+
+    expect(cachedResponseStatus(response, staticFiles.proxyCache, 360000)).toBe('UPDATING');
+    expect(staleOnError(response, 502, staticFiles.proxyCache, 360000)).toBe(true);
+    expect(staleOnError(response, 504, staticFiles.proxyCache, 360000)).toBe(true);
+    expect(staleOnError(response, 500, staticFiles.proxyCache, 360000)).toBe(false);
+  });
+
+  test('memory zones drop the least recently used responses past max_size or inactive', async () => {
+    let now = 0;
+    const store = createResponseCache(() => now).store(config.cacheZones.get('mem')!);
+    const body = (size: number) => cached({ body: Buffer.alloc(size) });
+
+    await store.set('a', body(40));
+    await store.set('b', body(40));
+    await store.get('a');
+    await store.set('c', body(40));
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('a')).toBeDefined();
+    expect(store.stats()).toEqual({ entries: 2, size: 80 });
+
+    now = 600000;
+    expect(await store.get('c')).toBeUndefined();
+    expect(store.stats()).toEqual({ entries: 1, size: 40 });
+  });
+
+  test('disk zones keep responses across restarts', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'nginclaude-cache-'));
+    const zone = { ...config.cacheZones.get('disk')!, path: directory };
+    try {
+      const response = cached({ headers: { 'content-type': 'text/csv', 'x-rows': ['1', '2'] } });
+      await createResponseCache().store(zone).set('example.com/reports/q1', response);
+
+      const files = fs.readdirSync(directory, { recursive: true }).map(String);
+      expect(files.filter(file => fs.statSync(path.join(directory, file)).isFile()))
+        .toEqual([expect.stringMatching(/^[0-9a-f]\/[0-9a-f]{2}\/[0-9a-f]{32}$/)]);
+
+      const restarted = createResponseCache().store(zone);
+      const read = await restarted.get('example.com/reports/q1');
+      expect(read).toEqual(response);
+      expect(restarted.stats()).toEqual({ entries: 1, size: response.body.length });
+      expect(await restarted.get('example.com/reports/q2')).toBeUndefined();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('captures responses on their way out, or swaps in a stale copy', async () => {
+    const completed: [number, unknown, string][] = [];
+    const server = http.createServer((req, res) => {
+      res.setHeader('X-Cache-Status', 'EXPIRED');
+      captureResponse(req, res, {
+        maxSize: 1024,
+        replace: statusCode => (statusCode === 502 ? cached() : undefined),
+        complete: (statusCode, headers, body) => completed.push([statusCode, headers, body.toString()])
+      });
+      if (req.url === '/down') {
+        res.writeHead(502, { 'content-type': 'text/plain' });
+        res.end('Bad Gateway');
+        return;
+      }
+      res.writeHead(200, 'OK', { 'Content-Type': 'text/css' });
+      res.write('body ');
+      res.end('{}');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const fetch = (url: string) => new Promise<{ status?: number; headers: http.IncomingHttpHeaders; body: string }>(resolve => {
+      http.get(`http://127.0.0.1:${(server.address() as AddressInfo).port}${url}`, res => {
+        let body = '';
+        res.on('data', chunk => (body += chunk));
+        res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body }));
+      });
+    });
+
+    try {
+      const fresh = await fetch('/app.css');
+      expect([fresh.status, fresh.body, fresh.headers['x-cache-status']]).toEqual([200, 'body {}', 'EXPIRED']);
+      expect(completed).toEqual([[200, { 'x-cache-status': 'EXPIRED', 'content-type': 'text/css' }, 'body {}']]);
+
+      const stale = await fetch('/down');
+      expect([stale.status, stale.body, stale.headers['x-cache-status']]).toEqual([200, 'body { color: red }', 'STALE']);
+      expect(stale.headers['content-type']).toBe('text/css');
+      expect(completed).toHaveLength(1);
+    } finally {
+      server.close();
+    }
+  });
+});
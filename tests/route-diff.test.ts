@@ -0,0 +1,163 @@
+import { parseConfig } from '../src/config/parser';
+import { buildServers } from '../src/routing/virtual-hosts';
+import { diffRoutes, formatRouteDiff } from '../src/routing/route-diff';
+import { isAdminAuthorized } from '../src/proxy/admin';
+
+const build = (text: string) => buildServers(parseConfig(text, 'test.conf'), 3000);
+
+const before = build(`
+  http {
+    upstream api_pool {
+      server localhost:8001;
+      server localhost:8002;
+    }
+    server {
+      listen 8080;
+      server_name example.com;
+      location /api { proxy_pass http://api_pool; }
+      location /static { proxy_pass http://localhost:8003; }
+      location /old { proxy_pass http://localhost:8004; }
+    }
+  }
+`);
+
+describe('diffRoutes', () => {
+  test('reports nothing for the same config', () => {
+    const diff = diffRoutes(before, before);
+    expect(diff).toEqual({ added: [], removed: [], changed: [], listen: [] });
+    expect(formatRouteDiff(diff)).toEqual([]);
+  });
+
+  test('ignores routes that only moved within the file', () => {
+    const moved = build(`
+      http {
+
+        upstream api_pool {
+          server localhost:8001;
+          server localhost:8002;
+        }
+        server {
+          server_name example.com;
+          listen 8080;
+          location /old { proxy_pass http://localhost:8004; }
+          location /static { proxy_pass http://localhost:8003; }
+          location /api { proxy_pass http://api_pool; }
+        }
+      }
+    `);
+
+    expect(formatRouteDiff(diffRoutes(before, moved))).toEqual([]);
+  });
+
+  test('lists added, removed and changed routes', () => {
+    const after = build(`
+      http {
+        upstream api_pool {
+          server localhost:8001;
+          server localhost:8005;
+        }
+        server {
+          listen 8080;
+          server_name example.com;
+          location /api { proxy_pass http://api_pool; }
+          location /static {
+            proxy_pass http://localhost:8006;
+            proxy_set_header X-Static yes;
+          }
+          location /new { proxy_pass http://localhost:8007; }
+        }
+      }
+    `);
+
+    const diff = diffRoutes(before, after);
+    expect(diff.added.map(({ route }) => route.id)).toEqual(['/new']);
+    expect(diff.removed.map(({ route }) => route.id)).toEqual(['/old']);
+    expect(diff.changed.map(({ after, fields }) => [after.id, fields])).toEqual([
+      ['/api', ['upstream']],
+      ['/static', ['target', 'headers']]
+    ]);
+
+    expect(formatRouteDiff(diff)).toEqual([
+      '+ server example.com: /new => http://localhost:8007',
+      '- server example.com: /old => http://localhost:8004',
+      '~ server example.com: /api => http://api_pool [localhost:8001, localhost:8005] ' +
+        '(upstream changed, was /api => http://api_pool [localhost:8001, localhost:8002])',
+      '~ server example.com: /static => http://localhost:8006 ' +
+        '(target, headers changed, was /static => http://localhost:8003)'
+    ]);
+  });
+
+  test('follows a server to its new ports', () => {
+    const moved = build(`
+      http {
+        upstream api_pool {
+          server localhost:8001;
+          server localhost:8002;
+        }
+        server {
+          listen 8080;
+          listen 8081;
+          server_name example.com;
+          location /api { proxy_pass http://api_pool; }
+          location /static { proxy_pass http://localhost:8003; }
+          location /old { proxy_pass http://localhost:8004; }
+        }
+      }
+    `);
+
+    expect(formatRouteDiff(diffRoutes(before, moved))).toEqual([
+      '~ server example.com: listen 8080, 8081 (was 8080)'
+    ]);
+  });
+
+  test('treats a server with a new name as a different server', () => {
+    const renamed = build(`
+      http {
+        server {
+          listen 8080;
+          server_name example.org;
+          location /static { proxy_pass http://localhost:8003; }
+        }
+      }
+    `);
+
+    const diff = diffRoutes(before, renamed);
+    expect(diff.added.map(({ server, route }) => `${server} ${route.id}`)).toEqual(['example.org /static']);
+    expect(diff.removed).toHaveLength(3);
+  });
+
+  test('tells apart servers that share their names by listen address', () => {
+    const shared = build(`
+      http {
+        server {
+          listen 8080;
+          location / { proxy_pass http://localhost:8001; }
+        }
+        server {
+          listen 8081;
+          location / { proxy_pass http://localhost:8002; }
+        }
+      }
+    `);
+
+    const diff = diffRoutes(shared, shared.slice(1));
+    expect(diff.removed.map(({ server }) => server)).toEqual(['"" (listen 8080)', '"" (listen 8081)']);
+    // Once the names are unique again the remaining block is known by them alone
+    expect(diff.added.map(({ server }) => server)).toEqual(['""']);
+  });
+});
+
+describe('isAdminAuthorized', () => {
+  test('accepts only the configured bearer token', () => {
+    expect(isAdminAuthorized('Bearer s3cret', 's3cret')).toBe(true);
+    expect(isAdminAuthorized('bearer s3cret', 's3cret')).toBe(true);
+    expect(isAdminAuthorized('Bearer s3cre', 's3cret')).toBe(false);
+    expect(isAdminAuthorized('Basic s3cret', 's3cret')).toBe(false);
+    expect(isAdminAuthorized(undefined, 's3cret')).toBe(false);
+  });
+
+  test('rejects everything while no token is configured', () => {
+    expect(isAdminAuthorized('Bearer ', '')).toBe(false);
+    expect(isAdminAuthorized('Bearer anything', undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { parseConfig } from '../src/config/parser';
+import { buildServers } from '../src/routing/virtual-hosts';
+import { RoutingRequest, createLlmEngine } from '../src/routing/llm-router';
+import { createRoutingEngine, createRuleEngine } from '../src/routing/engine';
+import { DEFAULT_MOCK_SCRIPT, MockModelScript, createMockModel } from '../src/routing/mock-model';
+
+const [server, mockServer] = buildServers(parseConfig(`
+  http {
+    llm_model claude-3-5-haiku-latest;
+    server {
+      location /api { proxy_pass http://localhost:8001; }
+      location / { proxy_pass http://localhost:8002; }
+    }
+    server {
+      server_name mock.local;
+      llm_provider mock;
+      llm_mock_reply '{"routeId": "/api", "confidence": 0.9}';
+      llm_mock_reply malformed;
+      llm_mock_latency 50ms;
+      location /api { proxy_pass http://localhost:8001; }
+    }
+  }
+`, 'test.conf'), 3000);
+
+const routes = server.routes;
+const request: RoutingRequest = { method: 'GET', url: '/api/users', headers: {} };
+const context = { isUp: () => true };
+
+const mockEngine = (script: Partial<MockModelScript>, random?: () => number) =>
+  createLlmEngine('mock', createMockModel('test', { ...DEFAULT_MOCK_SCRIPT, ...script }, random));
+
+describe('routing engines', () => {
+  test('reads engine settings per server block', () => {
+    expect(server.engine).toMatchObject({ engine: 'llm', provider: 'anthropic', model: 'claude-3-5-haiku-latest' });
+    expect(mockServer.engine).toMatchObject({
+      provider: 'mock',
+      model: 'claude-3-5-haiku-latest',
+      mock: { replies: ['{"routeId": "/api", "confidence": 0.9}', 'malformed'], order: 'sequence', latency: 50 }
+    });
+    expect(createRoutingEngine(mockServer.engine).name).toBe('llm mock/claude-3-5-haiku-latest');
+    expect(createRoutingEngine({ ...server.engine, engine: 'rules' }).name).toBe('rules');
+  });
+
+  test('rejects invalid engine settings', () => {
+    expect(() => buildServers(parseConfig('llm_engine magic;', 'test.conf'), 3000))
+      .toThrow('invalid value "magic" in "llm_engine" directive, it must be "llm" or "rules" in test.conf:1:1');
+    expect(() => buildServers(parseConfig('server { llm_provider openai; }', 'test.conf'), 3000))
+      .toThrow('invalid value "openai" in "llm_provider" directive, it must be "anthropic" or "mock" in test.conf:1:10');
+    expect(() => buildServers(parseConfig('llm_mock_latency soon;', 'test.conf'), 3000))
+      .toThrow('invalid value in "llm_mock_latency" directive in test.conf:1:1');
+  });
+
+  test('rule engine picks the route the config matches', async () => {
+    await expect(createRuleEngine().route(request, routes, context))
+      .resolves.toMatchObject({ routeId: '/api', confidence: 1 });
+    await expect(createRuleEngine().route({ ...request, url: '/other' }, routes.slice(0, 1), context))
+      .rejects.toThrow('No location matches /other');
+  });
+
+  test('mock model replays canned answers in order', async () => {
+    const engine = mockEngine({ replies: ['{"routeId": "/"}', '{"routeId": "/api", "path": "/v2/users"}'] });
+
+    await expect(engine.route(request, routes, context)).resolves.toEqual({ routeId: '/' });
+    await expect(engine.route(request, routes, context)).resolves.toEqual({ routeId: '/api', path: '/v2/users' });
+    await expect(engine.route(request, routes, context)).resolves.toEqual({ routeId: '/' });
+  });
+
+  test('mock model picks random routes from the schema', async () => {
+    const engine = mockEngine({ replies: ['random'] }, () => 0.6);
+
+    await expect(engine.route(request, routes, context)).resolves.toMatchObject({ routeId: '/', confidence: 0.6 });
+  });
+
+  test('malformed and failing answers surface as engine errors', async () => {
+    await expect(mockEngine({ replies: ['malformed'] }).route(request, routes, context)).rejects.toThrow();
+    await expect(mockEngine({ replies: ['{"routeId": "/nope"}'] }).route(request, routes, context)).rejects.toThrow();
+    await expect(mockEngine({ replies: ['error'] }).route(request, routes, context)).rejects.toThrow('Mock model error');
+  });
+
+  test('mock model latency can be cut short by aborting', async () => {
+    const controller = new AbortController();
+    const answer = mockEngine({ replies: ['random'], latency: 10000 })
+      .route(request, routes, { ...context, abortSignal: controller.signal });
+    controller.abort();
+
+    await expect(answer).rejects.toThrow();
+  });
+});
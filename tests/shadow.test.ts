@@ -0,0 +1,98 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { ShadowOutcome, compareShadowDecision, createShadowLog } from '../src/routing/shadow';
+
+const routes = buildProxyConfig(parseConfig(`
+  http {
+    server {
+      llm_shadow on;
+      location /api { proxy_pass http://localhost:8001; }
+      location /admin {
+        proxy_pass http://localhost:8003;
+        llm_disagreement reject;
+      }
+      location /static {
+        proxy_pass http://localhost:8004;
+        llm_shadow off;
+      }
+    }
+  }
+`, 'test.conf'), 3000).routes;
+const [api, admin] = routes;
+
+const entry = (location: string, outcome: ShadowOutcome, latencyMs: number) => ({
+  at: '2026-01-01T00:00:00.000Z',
+  method: 'GET',
+  url: location,
+  server: 'localhost (listen 3000)',
+  location,
+  outcome,
+  latencyMs
+});
+
+describe('shadow mode', () => {
+  test('llm_shadow is inherited and can be turned off per location', () => {
+    expect(routes.map(route => route.llmShadow)).toEqual([true, true, false]);
+    expect(() => buildProxyConfig(parseConfig('http { server { llm_shadow yes; } }', 'test.conf'), 3000))
+      .toThrow('invalid value in "llm_shadow" directive, it must be "on" or "off" in test.conf:1:17');
+  });
+
+  test('compares the engine pick with the location the config served', () => {
+    expect(compareShadowDecision({ routeId: '/api' }, routes, api, '/api/users')).toEqual({ outcome: 'agreed' });
+    expect(compareShadowDecision({ routeId: '/api', path: '/api/users' }, routes, api, '/api/users'))
+      .toEqual({ outcome: 'agreed' });
+    expect(compareShadowDecision({ routeId: '/api', path: '/api/v2/users' }, routes, api, '/api/users'))
+      .toEqual({ outcome: 'disagreed', detail: 'rewrote the path to /api/v2/users' });
+    expect(compareShadowDecision({ routeId: '/admin' }, routes, api, '/api/users')).toEqual({
+      outcome: 'disagreed',
+      detail: 'chose /admin => http://localhost:8003 but the config matches /api => http://localhost:8001'
+    });
+    // Disagreements count whatever the location's llm_disagreement policy
+    expect(compareShadowDecision({ routeId: '/api' }, routes, admin, '/admin').outcome).toBe('disagreed');
+    expect(compareShadowDecision({ routeId: '/nope' }, routes, api, '/api')).toEqual({
+      outcome: 'disagreed',
+      detail: 'route "/nope" is not in the route table'
+    });
+  });
+
+  test('reports agreement rate and latency per location', () => {
+    const log = createShadowLog(2);
+    log.record(entry('/api', 'agreed', 100));
+    log.record(entry('/api', 'agreed', 300));
+    log.record(entry('/api', 'disagreed', 200));
+    log.record(entry('/api', 'timeout', 1000));
+    log.record(entry('/api', 'capped', 0));
+    log.record(entry('/admin', 'error', 5));
+
+    const report = log.report();
+    expect(report.locations).toEqual([
+      {
+        server: 'localhost (listen 3000)',
+        location: '/api',
+        requests: 5,
+        agreed: 2,
+        disagreed: 1,
+        timeouts: 1,
+        errors: 0,
+        capped: 1,
+        agreementRate: 2 / 3,
+        averageLatencyMs: 400,
+        maxLatencyMs: 1000
+      },
+      {
+        server: 'localhost (listen 3000)',
+        location: '/admin',
+        requests: 1,
+        agreed: 0,
+        disagreed: 0,
+        timeouts: 0,
+        errors: 1,
+        capped: 0,
+        agreementRate: 0,
+        averageLatencyMs: 5,
+        maxLatencyMs: 5
+      }
+    ]);
+    expect(report.recent.map(({ location, outcome }) => `${location} ${outcome}`)).toEqual(['/admin error', '/api capped']);
+  });
+});
@@ -0,0 +1,110 @@
+import { parseConfig } from '../src/config/parser';
+import { buildSpendingConfig, createSpendingTracker, estimateCost } from '../src/routing/spending';
+
+const spendingConfig = (http: string) => buildSpendingConfig(parseConfig(`http { ${http} }`, 'test.conf').http.directives);
+
+const call = (location: string, promptTokens: number, completionTokens: number, model = 'test-model') => ({
+  model,
+  server: 'localhost (listen 3000)',
+  location,
+  promptTokens,
+  completionTokens
+});
+
+describe('spending', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test('reads prices and caps', () => {
+    const config = spendingConfig('llm_price test-model 2 10.5; llm_spend_cap daily=5 monthly=100.50 warn=90%;');
+    expect(config.prices.get('test-model')).toEqual({ input: 2, output: 10.5 });
+    expect(config.prices.get('claude-3-haiku-20240307')).toEqual({ input: 0.25, output: 1.25 });
+    expect(config).toMatchObject({ daily: 5, monthly: 100.5, warnAt: 0.9 });
+    const { daily, monthly, warnAt } = spendingConfig('');
+    expect([daily, monthly, warnAt]).toEqual([undefined, undefined, 0.8]);
+
+    expect(() => spendingConfig('llm_price test-model 2;'))
+      .toThrow('invalid number of arguments in "llm_price" directive in test.conf:1:8');
+    expect(() => spendingConfig('llm_price test-model 2 $10;'))
+      .toThrow('invalid price in "llm_price" directive, it must be dollars per million tokens in test.conf:1:8');
+    expect(() => spendingConfig('llm_spend_cap daily=0;'))
+      .toThrow('invalid "daily" amount "0" in "llm_spend_cap" directive in test.conf:1:8');
+    expect(() => spendingConfig('llm_spend_cap warn=150%;'))
+      .toThrow('invalid "warn" value "150%" in "llm_spend_cap" directive in test.conf:1:8');
+    expect(() => spendingConfig('llm_spend_cap weekly=5;'))
+      .toThrow('invalid parameter "weekly=5" in "llm_spend_cap" directive in test.conf:1:8');
+  });
+
+  test('estimates cost from prices per million tokens', () => {
+    expect(estimateCost({ input: 3, output: 15 }, { promptTokens: 1000, completionTokens: 100 })).toBeCloseTo(0.0045);
+    expect(estimateCost(undefined, { promptTokens: 1000, completionTokens: 100 })).toBe(0);
+  });
+
+  test('keeps totals per day and location', () => {
+    let now = new Date('2026-10-18T23:59:00Z');
+    const tracker = createSpendingTracker(() => spendingConfig('llm_price test-model 1 5;'), () => now);
+
+    expect(tracker.record(call('/api', 1000, 100))).toBeCloseTo(0.0015);
+    now = new Date('2026-10-19T00:01:00Z');
+    tracker.record(call('/api', 2000, 200));
+    tracker.record(call('/admin', 1000, 0));
+    tracker.record(call('/admin', 500, 0, 'other-model'));
+
+    const report = tracker.report();
+    expect(report.state).toBe('ok');
+    expect(report.caps).toEqual({ daily: null, monthly: null, warnAt: 0.8 });
+    expect(report.today).toEqual({
+      date: '2026-10-19',
+      calls: 3,
+      promptTokens: 3500,
+      completionTokens: 200,
+      cost: 0.004,
+      locations: [
+        { server: 'localhost (listen 3000)', location: '/api', calls: 1, promptTokens: 2000, completionTokens: 200, cost: 0.003 },
+        { server: 'localhost (listen 3000)', location: '/admin', calls: 2, promptTokens: 1500, completionTokens: 0, cost: 0.001 }
+      ]
+    });
+    expect(report.month).toEqual({ month: '2026-10', calls: 4, promptTokens: 4500, completionTokens: 300, cost: 0.0055 });
+    expect(report.days.map(day => day.date)).toEqual(['2026-10-19', '2026-10-18']);
+    expect(report.unpricedModels).toEqual(['other-model']);
+  });
+
+  test('warns near a cap and reports it exceeded once reached', () => {
+    let now = new Date('2026-10-19T12:00:00Z');
+    const tracker = createSpendingTracker(
+      () => spendingConfig('llm_price test-model 1000000 0; llm_spend_cap daily=1 monthly=2 warn=50%;'),
+      () => now
+    );
+
+    tracker.record(call('/api', 0.4, 0));
+    expect(tracker.state()).toBe('ok');
+    tracker.record(call('/api', 0.2, 0));
+    expect(tracker.state()).toBe('warning');
+    tracker.record(call('/api', 0.1, 0));
+    expect(warn).toHaveBeenCalledTimes(1);
+    tracker.record(call('/api', 0.3, 0));
+    expect(tracker.state()).toBe('exceeded');
+    expect(warn).toHaveBeenCalledWith(
+      'LLM spending cap reached: $1.00 of the daily $1 cap, routing by the config until it resets'
+    );
+
+    // A new day resets the daily cap, but the month is still nearly spent
+    now = new Date('2026-10-20T12:00:00Z');
+    expect(tracker.state()).toBe('warning');
+    tracker.record(call('/api', 1, 0));
+    expect(tracker.state()).toBe('exceeded');
+    expect(warn).toHaveBeenLastCalledWith(
+      'LLM spending cap reached: $2.00 of the monthly $2 cap, routing by the config until it resets'
+    );
+
+    now = new Date('2026-11-01T00:00:00Z');
+    expect(tracker.state()).toBe('ok');
+  });
+});
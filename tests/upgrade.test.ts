@@ -0,0 +1,64 @@
+import { IncomingMessage } from 'http';
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { isUpgradeRequest, upgradeProblem } from '../src/proxy/upgrade';
+
+const request = (headers: Record<string, string>) =>
+  ({ method: 'GET', url: '/live', headers, socket: {} } as unknown as IncomingMessage);
+
+const handshake = request({ upgrade: 'websocket', connection: 'keep-alive, Upgrade' });
+
+const [dashboard, noVersion, noHeaders, hardcoded] = buildProxyConfig(parseConfig(`
+  server {
+    proxy_http_version 1.1;
+    location /dashboard {
+      proxy_pass http://localhost:8005;
+      proxy_set_header Upgrade $http_upgrade;
+      proxy_set_header Connection "upgrade";
+    }
+    location /legacy {
+      proxy_pass http://localhost:8005;
+      proxy_http_version 1.0;
+      proxy_set_header Upgrade $http_upgrade;
+      proxy_set_header Connection "upgrade";
+    }
+    location /plain {
+      proxy_pass http://localhost:8005;
+    }
+    location /h2c {
+      proxy_pass http://localhost:8005;
+      proxy_set_header Upgrade h2c;
+      proxy_set_header Connection close;
+    }
+  }
+`, 'test.conf'), 3000).routes;
+
+describe('upgrade proxying', () => {
+  test('recognizes upgrade handshakes', () => {
+    expect(isUpgradeRequest(handshake)).toBe(true);
+    expect(isUpgradeRequest(request({ upgrade: 'websocket' }))).toBe(false);
+    expect(isUpgradeRequest(request({ connection: 'upgrade' }))).toBe(false);
+  });
+
+  test('inherits proxy_http_version, defaulting to 1.0 like nginx', () => {
+    expect(dashboard.proxyHttpVersion).toBe('1.1');
+    expect(noVersion.proxyHttpVersion).toBe('1.0');
+    expect(buildProxyConfig(parseConfig('server { location / { proxy_pass http://a; } }', 'test.conf'), 3000).routes[0].proxyHttpVersion)
+      .toBe('1.0');
+  });
+
+  test('passes upgrades only where the config allows them', () => {
+    expect(upgradeProblem(handshake, dashboard.proxyHttpVersion, dashboard.headers)).toBeNull();
+    expect(upgradeProblem(handshake, noVersion.proxyHttpVersion, noVersion.headers))
+      .toBe('the location does not set "proxy_http_version 1.1"');
+    expect(upgradeProblem(handshake, noHeaders.proxyHttpVersion, noHeaders.headers))
+      .toContain('does not pass the Upgrade header on');
+    expect(upgradeProblem(handshake, hardcoded.proxyHttpVersion, hardcoded.headers))
+      .toBe('the location does not set "proxy_set_header Connection upgrade"');
+  });
+
+  test('rejects unknown HTTP versions', () => {
+    expect(() => buildProxyConfig(parseConfig('proxy_http_version 2.0;', 'test.conf'), 3000))
+      .toThrow('invalid value "2.0" in "proxy_http_version" directive, it must be "1.0" or "1.1" in test.conf:1:1');
+  });
+});
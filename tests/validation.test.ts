@@ -0,0 +1,82 @@
+import { parseConfig } from '../src/config/parser';
+import { buildProxyConfig } from '../src/proxy-config';
+import { matchRoute } from '../src/routing/location-matcher';
+import { validateDecision } from '../src/routing/validation';
+import { buildRoutingPrompt, decisionSchema } from '../src/routing/llm-router';
+
+const routes = buildProxyConfig(parseConfig(`
+  http {
+    upstream api {
+      server localhost:8001;
+      server localhost:8005;
+    }
+    server {
+      location /api { proxy_pass http://api; }
+      location /admin {
+        proxy_pass http://localhost:8003;
+        llm_disagreement reject;
+      }
+      location = /exact { proxy_pass http://localhost:8006; }
+      location /static { proxy_pass http://localhost:8004; }
+    }
+  }
+`, 'test.conf'), 3000).routes;
+
+const validate = (routeId: string, requestPath: string, path?: string) =>
+  validateDecision({ routeId, path }, routes, matchRoute(routes, requestPath));
+
+describe('structured routing decisions', () => {
+  test('offers the route IDs of the server block as an enum', () => {
+    const schema = decisionSchema(routes);
+
+    expect(routes.map(route => route.id)).toEqual(['/api', '/admin', '= /exact', '/static']);
+    expect(schema.parse({ routeId: '= /exact', confidence: 0.9 })).toEqual({ routeId: '= /exact', confidence: 0.9 });
+    expect(schema.safeParse({ routeId: 'http://localhost:8001/api' }).success).toBe(false);
+    expect(schema.safeParse({ routeId: '/api', confidence: 3 }).success).toBe(false);
+  });
+
+  test('lists routes, pool members and backend health in the prompt', () => {
+    const prompt = buildRoutingPrompt(
+      { method: 'GET', url: '/api/users', headers: {} },
+      routes,
+      origin => origin !== 'http://localhost:8005' && origin !== 'http://localhost:8004'
+    );
+
+    expect(prompt).toContain('- Route "/api": If the URL path starts with "/api". Served by upstream pool "api" (localhost:8001, localhost:8005 unhealthy)');
+    expect(prompt).toContain('- Route "= /exact": If the URL path is exactly "/exact". Served by http://localhost:8006');
+    expect(prompt).toContain('Served by http://localhost:8004, currently DOWN so avoid it');
+  });
+});
+
+describe('LLM routing validation', () => {
+  test('accepts decisions for the matching location', () => {
+    expect(validate('/api', '/api/users')).toEqual({ accepted: true, route: routes[0] });
+    expect(validate('/admin', '/admin', '/admin/v2')).toEqual({ accepted: true, route: routes[1] });
+  });
+
+  test('rejects unknown routes and unsafe paths', () => {
+    expect(validate('http://evil.example.com', '/api/users')).toEqual({
+      accepted: false,
+      route: null,
+      reason: 'route "http://evil.example.com" is not in the route table'
+    });
+    expect(validate('/api', '/api/users', '//evil.example.com/x').accepted).toBe(false);
+    expect(validate('/api', '/api/users', 'api/users').accepted).toBe(false);
+  });
+
+  test('applies the matched location\'s policy to disagreements', () => {
+    expect(validate('/static', '/api/x')).toEqual({
+      accepted: true,
+      route: routes[3],
+      reason: 'chose /static => http://localhost:8004 but the config matches /api => http://api [localhost:8001, localhost:8005]'
+    });
+    expect(validate('/static', '/admin').accepted).toBe(false);
+  });
+
+  test('rejects decisions for requests no location matches', () => {
+    expect(validate('= /exact', '/other')).toMatchObject({
+      accepted: false,
+      reason: 'chose = /exact => http://localhost:8006 but no location matches the request'
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { parseConfig } from '../src/config/parser';
+import { buildServers, listenAddresses, selectServer } from '../src/routing/virtual-hosts';
+
+const servers = buildServers(parseConfig(`
+  http {
+    server {
+      listen 8080;
+      server_name example.com www.example.com;
+      location / { proxy_pass http://main; }
+    }
+    server {
+      listen 8080;
+      server_name *.example.com;
+      location / { proxy_pass http://subdomains; }
+    }
+    server {
+      listen 8080;
+      server_name *.api.example.com;
+      location / { proxy_pass http://api; }
+    }
+    server {
+      listen 8080;
+      server_name mail.*;
+      location / { proxy_pass http://mail; }
+    }
+    server {
+      listen 8080 default_server;
+      server_name ~^(?<user>\\w+)\\.users\\.test$;
+      location / { proxy_pass http://users; }
+    }
+    server {
+      listen 127.0.0.1:9090;
+      location / { proxy_pass http://internal; }
+    }
+    server {
+      location / { proxy_pass http://unlisted; }
+    }
+  }
+`, 'test.conf'), 3000);
+
+const targetFor = (port: number | undefined, host: string | undefined): string | undefined =>
+  selectServer(servers, port, host)?.routes[0].target;
+
+describe('virtual hosts', () => {
+  test('picks servers by exact, wildcard and regex server names', () => {
+    expect(targetFor(8080, 'Example.com:8080')).toBe('http://main');
+    expect(targetFor(8080, 'www.example.com')).toBe('http://main');
+    expect(targetFor(8080, 'blog.example.com')).toBe('http://subdomains');
+    expect(targetFor(8080, 'v1.api.example.com')).toBe('http://api');
+    expect(targetFor(8080, 'mail.example.org')).toBe('http://mail');
+    expect(targetFor(8080, 'alice.users.test')).toBe('http://users');
+  });
+
+  test('falls back to the default server of the port', () => {
+    expect(targetFor(8080, 'unknown.test')).toBe('http://users');
+    expect(targetFor(8080, undefined)).toBe('http://users');
+    expect(targetFor(9090, 'example.com')).toBe('http://internal');
+  });
+
+  test('uses the default port for servers without listen', () => {
+    expect(targetFor(3000, 'anything')).toBe('http://unlisted');
+  });
+
+  test('lists each port to bind once', () => {
+    expect(listenAddresses(servers).map(({ host, port }) => ({ host, port }))).toEqual([
+      { host: undefined, port: 8080 },
+      { host: '127.0.0.1', port: 9090 },
+      { host: undefined, port: 3000 }
+    ]);
+  });
+
+  test('rejects two default servers on the same port', () => {
+    expect(() => buildServers(parseConfig(
+      'server { listen 80 default_server; }\nserver { listen 80 default_server; }',
+      'bad.conf'
+    ), 3000)).toThrow('a duplicate default server for port 80 in bad.conf:2:10');
+  });
+});